@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { Button } from './components/ui/button';
 import { Card } from './components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs';
@@ -6,154 +6,899 @@ import { Slider } from './components/ui/slider';
 import { Label } from './components/ui/label';
 import { AlgorithmResults } from './components/AlgorithmResults';
 import { AlgorithmStepper } from './components/AlgorithmStepper';
-import { ReactFlowGraph } from './components/ReactFlowGraph';
-import { generateRandomPoints, createDistanceMatrix, Point } from './utils/graph-generator';
-import { greedyTSP, heldKarpTSP, christofidesTSP, TSPResult } from './utils/tsp-algorithms';
-import { PlayCircle, RefreshCw } from 'lucide-react';
+import { ReactFlowGraph, precedenceColor } from './components/ReactFlowGraph';
+import { MetaheuristicSettings } from './components/MetaheuristicSettings';
+import { SearchTreePanel } from './components/SearchTreePanel';
+import { LowerBoundPanel } from './components/LowerBoundPanel';
+import { MultiStartChart } from './components/MultiStartChart';
+import { DPTablePanel } from './components/DPTablePanel';
+import { RunProgress, JobStatus } from './components/RunProgress';
+import { InstanceAnalysisPanel } from './components/InstanceAnalysisPanel';
+import { ScheduleTimeline } from './components/ScheduleTimeline';
+import {
+  generateRandomPoints,
+  createDistanceMatrix,
+  createAsymmetricDistanceMatrix,
+  randomDirectionFactors,
+  DistanceMetric,
+  Point
+} from './utils/graph-generator';
+import {
+  estimateHeldKarp,
+  DEFAULT_HELD_KARP_LIMIT,
+  AlgorithmStep,
+  DPTableEntry,
+  MatchingMethod,
+  MultiStartResult,
+  TSPResult
+} from './utils/tsp-algorithms';
+import {
+  DEFAULT_SIMULATED_ANNEALING_OPTIONS,
+  DEFAULT_GENETIC_OPTIONS,
+  DEFAULT_ANT_COLONY_OPTIONS,
+  DEFAULT_TABU_SEARCH_OPTIONS,
+  DEFAULT_ITERATED_LOCAL_SEARCH_OPTIONS,
+  SimulatedAnnealingOptions,
+  GeneticOptions,
+  AntColonyOptions,
+  TabuSearchOptions,
+  IteratedLocalSearchOptions
+} from './utils/metaheuristics';
+import { SpaceFillingCurve } from './utils/space-filling-curve';
+import { AlgorithmId, InitialTour } from './utils/solvers';
+import { createSolverPool, SolverPool } from './utils/solver-pool';
+import { computeLowerBounds, LowerBounds } from './utils/lower-bounds';
+import { analyzeInstance, TriangleViolation } from './utils/instance-analyzer';
+import {
+  DEFAULT_VEHICLE_ROUTING_OPTIONS,
+  demandOf,
+  generateDemands,
+  withoutDemands,
+  VehicleRoutingOptions
+} from './utils/vehicle-routing';
+import {
+  computeSchedule,
+  generateTimeWindows,
+  hasTimeWindows,
+  withoutTimeWindows,
+  TimeWindowTightness
+} from './utils/time-windows';
+import { effectiveVariant, isOpenPath, reduceToTour, boundWithoutOffset, PathVariant } from './utils/path-variants';
+import {
+  describePrecedence,
+  precedenceConflict,
+  violatedPrecedences,
+  PrecedenceConstraint,
+  PrecedenceKind
+} from './utils/precedence';
+import { PlayCircle, RefreshCw, XCircle } from 'lucide-react';
+
+// Symmetric instances use the metric as is; asymmetric ones cost each direction separately
+type InstanceType = 'symmetric' | 'asymmetric';
+
+// A single closed tour, or several vehicle routes from a depot
+type ProblemType = 'tsp' | 'vrp';
+
+// Unit demands split the cities evenly over the fleet; random demands use the capacity setting
+type DemandMode = 'unit' | 'random';
+
+const PATH_VARIANT_LABELS: Record<PathVariant, string> = {
+  tour: 'Closed tour',
+  path: 'Hamiltonian path (no return)',
+  fixedstart: 'Path with fixed start',
+  fixedends: 'Path with fixed start and end'
+};
+
+const METRIC_LABELS: Record<DistanceMetric, string> = {
+  euclidean: 'Euclidean',
+  euc2d: 'Rounded Euclidean (TSPLIB EUC_2D)',
+  manhattan: 'Manhattan',
+  chebyshev: 'Chebyshev',
+  squared: 'Squared Euclidean',
+  haversine: 'Haversine (lat/lon, km)'
+};
+
+interface AlgorithmConfig {
+  id: AlgorithmId;
+  name: string;
+  tabLabel: string;
+  color: string;
+  stepInterval: number;
+  // Name of the unit reported in "best found at", for iterative solvers
+  iterationLabel?: string;
+  // Needs d(i, j) = d(j, i); disabled on asymmetric instances
+  symmetricOnly?: boolean;
+  // Only meaningful when the cities carry time windows
+  requiresTimeWindows?: boolean;
+  // Only meaningful once precedence constraints have been drawn
+  requiresPrecedence?: boolean;
+  // Returns one route per vehicle; runs only in vehicle routing mode, where single-tour solvers don't
+  vehicleRouting?: boolean;
+  info: {
+    title: string;
+    complexity: string;
+    description: string;
+  };
+}
+
+const ALGORITHMS: AlgorithmConfig[] = [
+  {
+    id: 'greedy',
+    name: 'Greedy Algorithm',
+    tabLabel: 'Greedy',
+    color: '#16a34a',
+    stepInterval: 1500,
+    info: {
+      title: 'Greedy (Nearest Neighbor)',
+      complexity: 'Fast heuristic. O(n²)',
+      description: 'Always picks nearest unvisited city'
+    }
+  },
+  {
+    id: 'multistart',
+    name: 'Multi-Start Nearest Neighbor',
+    tabLabel: 'Multi-Start NN',
+    color: '#15803d',
+    stepInterval: 1500,
+    info: {
+      title: 'Multi-Start Nearest Neighbor',
+      complexity: 'Greedy from every start. O(n³)',
+      description: 'Keeps the best of n nearest neighbour tours'
+    }
+  },
+  {
+    id: 'nearestinsertion',
+    name: 'Nearest Insertion',
+    tabLabel: 'Nearest Ins.',
+    color: '#65a30d',
+    stepInterval: 1500,
+    info: {
+      title: 'Nearest Insertion',
+      complexity: '≤2× optimal. O(n²)',
+      description: 'Inserts the city closest to the subtour'
+    }
+  },
+  {
+    id: 'farthestinsertion',
+    name: 'Farthest Insertion',
+    tabLabel: 'Farthest Ins.',
+    color: '#059669',
+    stepInterval: 1500,
+    info: {
+      title: 'Farthest Insertion',
+      complexity: 'Fast heuristic. O(n²)',
+      description: 'Inserts the city farthest from the subtour first'
+    }
+  },
+  {
+    id: 'cheapestinsertion',
+    name: 'Cheapest Insertion',
+    tabLabel: 'Cheapest Ins.',
+    color: '#0284c7',
+    stepInterval: 1500,
+    info: {
+      title: 'Cheapest Insertion',
+      complexity: '≤2× optimal. O(n³)',
+      description: 'Inserts the city that adds the least cost'
+    }
+  },
+  {
+    id: 'randominsertion',
+    name: 'Random Insertion',
+    tabLabel: 'Random Ins.',
+    color: '#78716c',
+    stepInterval: 1500,
+    info: {
+      title: 'Random Insertion',
+      complexity: 'Fast heuristic. O(n²)',
+      description: 'Inserts cities in random order at their cheapest position'
+    }
+  },
+  {
+    id: 'convexhull',
+    name: 'Convex Hull Insertion',
+    tabLabel: 'Convex Hull',
+    color: '#7c3aed',
+    stepInterval: 1500,
+    info: {
+      title: 'Convex Hull Insertion',
+      complexity: 'Geometric heuristic. O(n³)',
+      description: 'Starts from the hull, then inserts the cheapest city'
+    }
+  },
+  {
+    id: 'spacefilling',
+    name: 'Space-Filling Curve',
+    tabLabel: 'Space-Filling',
+    color: '#db2777',
+    stepInterval: 1000,
+    info: {
+      title: 'Space-Filling Curve',
+      complexity: 'Geometric heuristic. O(n log n)',
+      description: 'Visits cities in Hilbert or Sierpinski curve order'
+    }
+  },
+  {
+    id: 'heldkarp',
+    name: 'Held-Karp Algorithm',
+    tabLabel: 'Held-Karp',
+    color: '#9333ea',
+    stepInterval: 1500,
+    info: {
+      title: 'Held-Karp (DP)',
+      complexity: 'Optimal solution. O(n² 2ⁿ)',
+      description: 'Uses dynamic programming'
+    }
+  },
+  {
+    id: 'christofides',
+    name: 'Christofides Algorithm',
+    tabLabel: 'Christofides',
+    color: '#ea580c',
+    stepInterval: 2000,
+    symmetricOnly: true,
+    info: {
+      title: 'Christofides',
+      complexity: '≤1.5× optimal. O(n³)',
+      description: 'MST + matching + shortcutting'
+    }
+  },
+  {
+    id: 'twoopt',
+    name: '2-opt Local Search',
+    tabLabel: '2-opt',
+    color: '#0891b2',
+    stepInterval: 1500,
+    info: {
+      title: '2-opt',
+      complexity: 'Local search. O(n²) per pass',
+      description: 'Swaps pairs of edges to remove crossings'
+    }
+  },
+  {
+    id: 'oropt',
+    name: 'Or-opt Local Search',
+    tabLabel: 'Or-opt',
+    color: '#0d9488',
+    stepInterval: 1500,
+    info: {
+      title: 'Or-opt',
+      complexity: 'Local search. O(n²) per pass',
+      description: 'Moves segments of 1–3 cities elsewhere in the tour'
+    }
+  },
+  {
+    id: 'threeopt',
+    name: '3-opt Local Search',
+    tabLabel: '3-opt',
+    color: '#be185d',
+    stepInterval: 1500,
+    info: {
+      title: '3-opt',
+      complexity: 'Local search. O(n³) per pass',
+      description: 'Removes three edges and tries all seven reconnections'
+    }
+  },
+  {
+    id: 'lk',
+    name: 'Lin-Kernighan',
+    tabLabel: 'Lin-Kernighan',
+    color: '#2563eb',
+    stepInterval: 1500,
+    info: {
+      title: 'Lin-Kernighan',
+      complexity: 'Near-optimal. ~O(n^2.2) empirically',
+      description: 'Sequential edge exchanges of variable depth'
+    }
+  },
+  {
+    id: 'annealing',
+    name: 'Simulated Annealing',
+    tabLabel: 'Annealing',
+    color: '#dc2626',
+    stepInterval: 500,
+    info: {
+      title: 'Simulated Annealing',
+      complexity: 'Metaheuristic. O(iterations · n)',
+      description: 'Random 2-opt moves, uphill moves accepted while hot'
+    }
+  },
+  {
+    id: 'genetic',
+    name: 'Genetic Algorithm',
+    tabLabel: 'Genetic',
+    color: '#ca8a04',
+    stepInterval: 500,
+    iterationLabel: 'Generation',
+    info: {
+      title: 'Genetic Algorithm',
+      complexity: 'Metaheuristic. O(generations · population · n)',
+      description: 'Evolves a population with crossover and mutation'
+    }
+  },
+  {
+    id: 'antcolony',
+    name: 'Ant Colony Optimization',
+    tabLabel: 'Ant Colony',
+    color: '#f97316',
+    stepInterval: 800,
+    iterationLabel: 'Iteration',
+    info: {
+      title: 'Ant Colony (AS / MMAS)',
+      complexity: 'Metaheuristic. O(iterations · ants · n²)',
+      description: 'Ants build tours guided by evaporating pheromone'
+    }
+  },
+  {
+    id: 'tabu',
+    name: 'Tabu Search',
+    tabLabel: 'Tabu',
+    color: '#9f1239',
+    stepInterval: 500,
+    iterationLabel: 'Iteration',
+    info: {
+      title: 'Tabu Search',
+      complexity: 'Metaheuristic. O(iterations · n²)',
+      description: 'Best 2-opt move each iteration; removed edges stay tabu for a while'
+    }
+  },
+  {
+    id: 'ils',
+    name: 'Iterated Local Search',
+    tabLabel: 'ILS',
+    color: '#4d7c0f',
+    stepInterval: 500,
+    iterationLabel: 'Kick',
+    info: {
+      title: 'Iterated Local Search',
+      complexity: 'Metaheuristic. O(kicks · 2-opt)',
+      description: 'Double-bridge kicks followed by 2-opt, keeping improvements'
+    }
+  },
+  {
+    id: 'branchbound',
+    name: 'Branch and Bound',
+    tabLabel: 'Branch & Bound',
+    color: '#4f46e5',
+    stepInterval: 1000,
+    info: {
+      title: 'Branch and Bound (Little)',
+      complexity: 'Optimal solution. Exponential worst case',
+      description: 'Reduced-matrix bounds prune include/exclude branches'
+    }
+  },
+  {
+    id: 'branchcut',
+    name: 'Branch and Cut',
+    tabLabel: 'Branch & Cut',
+    color: '#0e7490',
+    stepInterval: 1000,
+    info: {
+      title: 'Branch and Cut (DFJ + LP)',
+      complexity: 'Optimal solution. LP relaxations with lazy subtour cuts',
+      description: 'Simplex bounds; violated subtours are cut off, fractional edges branched'
+    }
+  },
+  {
+    id: 'timewindows',
+    name: 'Time Window Insertion',
+    tabLabel: 'TSPTW',
+    color: '#b45309',
+    stepInterval: 1500,
+    requiresTimeWindows: true,
+    info: {
+      title: 'TSP with Time Windows',
+      complexity: 'Heuristic. O(n³) per insertion or relocation pass',
+      description: 'Insert by closing time, relocate while lateness or travel drops'
+    }
+  },
+  {
+    id: 'precedence',
+    name: 'Precedence-Constrained Insertion',
+    tabLabel: 'Precedence',
+    color: '#be123c',
+    stepInterval: 1500,
+    requiresPrecedence: true,
+    info: {
+      title: 'Sequential Ordering / Pickup and Delivery',
+      complexity: 'Heuristic. O(n³) insertion, O(n³) per local search pass',
+      description: 'Insert cities once their predecessors are placed, then keep only feasible relocations and 2-opt moves'
+    }
+  },
+  {
+    id: 'clarkewright',
+    name: 'Clarke-Wright Savings',
+    tabLabel: 'Savings',
+    color: '#0f766e',
+    stepInterval: 1000,
+    vehicleRouting: true,
+    info: {
+      title: 'Clarke-Wright Savings (VRP)',
+      complexity: 'Heuristic. O(n² log n)',
+      description: 'Merge routes in order of the distance saved by skipping the depot'
+    }
+  },
+  {
+    id: 'sweep',
+    name: 'Sweep Algorithm',
+    tabLabel: 'Sweep',
+    color: '#a21caf',
+    stepInterval: 1000,
+    vehicleRouting: true,
+    info: {
+      title: 'Sweep (VRP)',
+      complexity: 'Heuristic. O(n log n) clustering + routing',
+      description: 'Fill vehicles by polar angle around the depot, then route each cluster'
+    }
+  },
+  {
+    id: 'routefirst',
+    name: 'Route-First Cluster-Second',
+    tabLabel: 'Route-First',
+    color: '#1d4ed8',
+    stepInterval: 1500,
+    vehicleRouting: true,
+    info: {
+      title: 'Route-First Cluster-Second (VRP)',
+      complexity: 'Giant tour + O(k n²) optimal split',
+      description: 'Split one giant tour into capacity-feasible routes by dynamic programming'
+    }
+  }
+];
+
+// Cheapest finite tour among the results, used as the upper bound for the 1-tree ascent
+function bestKnownCost(results: Partial<Record<AlgorithmId, TSPResult>>): number {
+  return Math.min(...Object.values(results).map((result) => result!.cost));
+}
+
+// Shows the partial path of a selected Held-Karp table entry on the graph
+function dpEntryStep(entry: DPTableEntry): AlgorithmStep {
+  return {
+    description: `Path from node ${entry.path[0]} through {${entry.subset.join(', ')}} ending at ${entry.last}`,
+    currentNode: entry.last,
+    visitedNodes: entry.path,
+    currentPath: [],
+    addedEdges: entry.path.slice(1).map((node, i) => ({ from: entry.path[i], to: node })),
+    cost: entry.cost
+  };
+}
+
+// Asymmetric instances keep their per-direction factors so the metric can change without new ones
+function buildDistanceMatrix(points: Point[], metric: DistanceMetric, directionFactors: number[][] | null): number[][] {
+  return directionFactors
+    ? createAsymmetricDistanceMatrix(points, directionFactors, metric)
+    : createDistanceMatrix(points, metric);
+}
+
+// The three edges of a violation, each labelled with its cost
+function violationEdges(violation: TriangleViolation, distanceMatrix: number[][]) {
+  const { i, j, k } = violation;
+  return [[i, k], [i, j], [j, k]].map(([from, to]) => ({
+    from,
+    to,
+    label: distanceMatrix[from][to].toFixed(1)
+  }));
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 2 ** 20) return `${(bytes / 2 ** 10).toFixed(0)} KB`;
+  if (bytes < 2 ** 30) return `${(bytes / 2 ** 20).toFixed(0)} MB`;
+  return `${(bytes / 2 ** 30).toFixed(1)} GB`;
+}
 
 export default function App() {
   const [numCities, setNumCities] = useState(8);
+  const [instanceType, setInstanceType] = useState<InstanceType>('symmetric');
+  const [metric, setMetric] = useState<DistanceMetric>('euclidean');
+  const [directionFactors, setDirectionFactors] = useState<number[][] | null>(null);
+  const [timeWindowMode, setTimeWindowMode] = useState<TimeWindowTightness | 'none'>('none');
+  const [problemType, setProblemType] = useState<ProblemType>('tsp');
+  const [demandMode, setDemandMode] = useState<DemandMode>('unit');
+  const [vehicleRouting, setVehicleRouting] = useState<VehicleRoutingOptions>(DEFAULT_VEHICLE_ROUTING_OPTIONS);
+  const [pathVariant, setPathVariant] = useState<PathVariant>('tour');
+  const [endNode, setEndNode] = useState(1);
+  const [precedences, setPrecedences] = useState<PrecedenceConstraint[]>([]);
+  // While drawing, a node click picks the earlier city and the next click the later one
+  const [constraintMode, setConstraintMode] = useState<PrecedenceKind | 'off'>('off');
+  const [pendingConstraintNode, setPendingConstraintNode] = useState<number | null>(null);
+  const [constraintMessage, setConstraintMessage] = useState<string | null>(null);
   const [points, setPoints] = useState<Point[]>([]);
   const [distanceMatrix, setDistanceMatrix] = useState<number[][]>([]);
-  const [greedyResult, setGreedyResult] = useState<TSPResult | null>(null);
-  const [heldKarpResult, setHeldKarpResult] = useState<TSPResult | null>(null);
-  const [christofidesResult, setChristofidesResult] = useState<TSPResult | null>(null);
+  const [results, setResults] = useState<Partial<Record<AlgorithmId, TSPResult>>>({});
+  const [lowerBounds, setLowerBounds] = useState<LowerBounds | null>(null);
+  const [multiStart, setMultiStart] = useState<MultiStartResult | null>(null);
+  const [selectedStart, setSelectedStart] = useState(0);
+  const [selectedDpEntry, setSelectedDpEntry] = useState<number | null>(null);
+  const [selectedViolation, setSelectedViolation] = useState(0);
   const [isRunning, setIsRunning] = useState(false);
-  
+  const [jobStatuses, setJobStatuses] = useState<Partial<Record<AlgorithmId, JobStatus>>>({});
+  const poolRef = useRef<SolverPool | null>(null);
+  const runResultsRef = useRef<Partial<Record<AlgorithmId, TSPResult>>>({});
+  const [startNode, setStartNode] = useState(0);
+  const [heldKarpLimit, setHeldKarpLimit] = useState(DEFAULT_HELD_KARP_LIMIT);
+  const [initialTour, setInitialTour] = useState<InitialTour>('greedy');
+  const [matchingMethod, setMatchingMethod] = useState<MatchingMethod>('exact');
+  const [curve, setCurve] = useState<SpaceFillingCurve>('hilbert');
+  const analysis = useMemo(() => analyzeInstance(distanceMatrix), [distanceMatrix]);
+  const timeWindowsOn = hasTimeWindows(points);
+  // Vehicle routes always return to the depot; a fixed end equal to the start is a tour
+  const variant: PathVariant = problemType === 'tsp' ? effectiveVariant(pathVariant, startNode, endNode) : 'tour';
+  const closed = !isOpenPath(variant);
+  // Vehicle routing ignores precedence; free-ended paths have no start to order against
+  const activePrecedences = problemType === 'tsp' ? precedences : [];
+  const constraintStart = variant === 'path' ? undefined : startNode;
+  const constraintEnd = variant === 'fixedends' ? endNode : undefined;
+
+  const disabledReason = (algorithm: AlgorithmConfig): string | undefined => {
+    if (algorithm.vehicleRouting && problemType !== 'vrp') return 'needs vehicle routing mode';
+    if (!algorithm.vehicleRouting && problemType === 'vrp') return 'solves a single tour';
+    if (algorithm.symmetricOnly && !analysis.symmetric) return 'needs a symmetric distance matrix';
+    if (algorithm.symmetricOnly && !closed) return "the open path's dummy city breaks the triangle inequality";
+    if (algorithm.requiresTimeWindows && !timeWindowsOn) return 'needs time windows';
+    if (algorithm.requiresPrecedence && activePrecedences.length === 0) return 'needs precedence constraints';
+    return undefined;
+  };
+  const defaultTab: AlgorithmId = problemType === 'vrp' ? 'clarkewright' : 'greedy';
+  const totalDemand = points.reduce((sum, point) => sum + (point.id === startNode ? 0 : demandOf(points, point.id)), 0);
+  const effectiveCapacity = demandMode === 'random'
+    ? vehicleRouting.capacity
+    : Math.max(1, Math.ceil((points.length - 1) / vehicleRouting.vehicles));
+  const [annealingOptions, setAnnealingOptions] = useState<SimulatedAnnealingOptions>(
+    DEFAULT_SIMULATED_ANNEALING_OPTIONS
+  );
+  const [geneticOptions, setGeneticOptions] = useState<GeneticOptions>(DEFAULT_GENETIC_OPTIONS);
+  const [antColonyOptions, setAntColonyOptions] = useState<AntColonyOptions>(DEFAULT_ANT_COLONY_OPTIONS);
+  const [tabuSearchOptions, setTabuSearchOptions] = useState<TabuSearchOptions>(DEFAULT_TABU_SEARCH_OPTIONS);
+  const [iteratedLocalSearchOptions, setIteratedLocalSearchOptions] = useState<IteratedLocalSearchOptions>(
+    DEFAULT_ITERATED_LOCAL_SEARCH_OPTIONS
+  );
+
   // Step-by-step state
-  const [activeTab, setActiveTab] = useState('greedy');
-  const [greedyStep, setGreedyStep] = useState(0);
-  const [heldKarpStep, setHeldKarpStep] = useState(0);
-  const [christofidesStep, setChristofidesStep] = useState(0);
-  const [isPlayingGreedy, setIsPlayingGreedy] = useState(false);
-  const [isPlayingHeldKarp, setIsPlayingHeldKarp] = useState(false);
-  const [isPlayingChristofides, setIsPlayingChristofides] = useState(false);
+  const [activeTab, setActiveTab] = useState<AlgorithmId>('greedy');
+  const [currentSteps, setCurrentSteps] = useState<Partial<Record<AlgorithmId, number>>>({});
+  const [playing, setPlaying] = useState<Partial<Record<AlgorithmId, boolean>>>({});
+
+  const setStep = (id: AlgorithmId, step: number) => {
+    setCurrentSteps((prev) => ({ ...prev, [id]: step }));
+  };
+
+  const setIsPlaying = (id: AlgorithmId, isPlaying: boolean) => {
+    setPlaying((prev) => ({ ...prev, [id]: isPlaying }));
+  };
+
+  const setJobStatus = (id: AlgorithmId, status: JobStatus) => {
+    setJobStatuses((prev) => ({ ...prev, [id]: status }));
+  };
+
+  // Solvers run in a pool of Web Workers so the page stays responsive
+  useEffect(() => {
+    const pool = createSolverPool();
+    poolRef.current = pool;
+    return () => pool.cancel();
+  }, []);
+
+  // A path with a fixed end gets windows drawn around a route that finishes there
+  const drawTimeWindows = (
+    basePoints: Point[],
+    matrix: number[][],
+    start: number,
+    mode: TimeWindowTightness,
+    shape = pathVariant,
+    end = endNode
+  ): Point[] => {
+    const fixedEnd = problemType === 'tsp' && effectiveVariant(shape, start, end) === 'fixedends';
+    return generateTimeWindows(basePoints, matrix, start, mode, fixedEnd ? end : undefined);
+  };
+
+  // Christofides needs the triangle inequality, which an open path's dummy city breaks
+  const leaveChristofidesIfOpen = (shape: PathVariant, start: number, end: number) => {
+    if (problemType !== 'tsp' || !isOpenPath(effectiveVariant(shape, start, end))) return;
+    if (activeTab === 'christofides') setActiveTab(defaultTab);
+    if (initialTour === 'christofides') setInitialTour('greedy');
+  };
 
   const generateGraph = () => {
+    if (isRunning) cancelRun();
     const newPoints = generateRandomPoints(numCities, 800, 500);
-    const matrix = createDistanceMatrix(newPoints);
-    setPoints(newPoints);
+    const factors = instanceType === 'asymmetric' ? randomDirectionFactors(newPoints.length) : null;
+    const matrix = buildDistanceMatrix(newPoints, metric, factors);
+    const newStart = startNode < newPoints.length ? startNode : 0;
+    const newEnd = endNode < newPoints.length ? endNode : newStart === 0 ? 1 : 0;
+    if (newEnd !== endNode) setEndNode(newEnd);
+    const tabDisabled = ALGORITHMS.some((algorithm) => algorithm.id === activeTab && (
+      (instanceType === 'asymmetric' && algorithm.symmetricOnly) ||
+      (timeWindowMode === 'none' && algorithm.requiresTimeWindows) ||
+      algorithm.requiresPrecedence
+    ));
+    if (tabDisabled) setActiveTab(defaultTab);
+    if (instanceType === 'asymmetric' && initialTour === 'christofides') setInitialTour('greedy');
+    const windowed = timeWindowMode === 'none'
+      ? newPoints
+      : drawTimeWindows(newPoints, matrix, newStart, timeWindowMode, pathVariant, newEnd);
+    setPoints(demandMode === 'random' ? generateDemands(windowed, newStart) : windowed);
+    setDirectionFactors(factors);
+    setDistanceMatrix(matrix);
+    setStartNode(newStart);
+    // Constraints name cities of the old graph
+    setPrecedences([]);
+    setPendingConstraintNode(null);
+    setConstraintMessage(null);
+    clearResults();
+  };
+
+  // Windows are drawn from the current distances, so they are redrawn whenever those change
+  const changeTimeWindows = (mode: TimeWindowTightness | 'none') => {
+    setTimeWindowMode(mode);
+    if (points.length === 0) return;
+    if (isRunning) cancelRun();
+    if (mode === 'none' && activeTab === 'timewindows') setActiveTab(defaultTab);
+    setPoints(mode === 'none' ? withoutTimeWindows(points) : drawTimeWindows(points, distanceMatrix, startNode, mode));
+    clearResults();
+  };
+
+  const changeProblemType = (type: ProblemType) => {
+    if (isRunning) cancelRun();
+    setProblemType(type);
+    setActiveTab(type === 'vrp' ? 'clarkewright' : 'greedy');
+    clearResults();
+  };
+
+  // Windows follow the end node while it is fixed
+  const changePathVariant = (newVariant: PathVariant) => {
+    if (isRunning) cancelRun();
+    setPathVariant(newVariant);
+    leaveChristofidesIfOpen(newVariant, startNode, endNode);
+    if (timeWindowMode !== 'none' && (newVariant === 'fixedends' || pathVariant === 'fixedends')) {
+      setPoints(drawTimeWindows(points, distanceMatrix, startNode, timeWindowMode, newVariant));
+    }
+    clearResults();
+  };
+
+  const changeEndNode = (node: number) => {
+    if (node === endNode) return;
+    if (isRunning) cancelRun();
+    setEndNode(node);
+    leaveChristofidesIfOpen(pathVariant, startNode, node);
+    if (timeWindowMode !== 'none' && pathVariant === 'fixedends') {
+      setPoints(drawTimeWindows(points, distanceMatrix, startNode, timeWindowMode, pathVariant, node));
+    }
+    clearResults();
+  };
+
+  const updatePrecedences = (constraints: PrecedenceConstraint[]) => {
+    if (isRunning) cancelRun();
+    setPrecedences(constraints);
+    if (constraints.length === 0 && activeTab === 'precedence') setActiveTab(defaultTab);
+    clearResults();
+  };
+
+  const changeConstraintMode = (mode: PrecedenceKind | 'off') => {
+    setConstraintMode(mode);
+    setPendingConstraintNode(null);
+    setConstraintMessage(null);
+  };
+
+  // Node clicks pick the start node, or the two ends of a new constraint while drawing
+  const selectNode = (node: number) => {
+    if (constraintMode === 'off') {
+      changeStartNode(node);
+      return;
+    }
+    if (pendingConstraintNode === null) {
+      setPendingConstraintNode(node);
+      setConstraintMessage(null);
+      return;
+    }
+
+    const candidate = { before: pendingConstraintNode, after: node, kind: constraintMode };
+    const conflict = precedenceConflict(precedences, candidate, constraintStart, constraintEnd);
+    setPendingConstraintNode(null);
+    setConstraintMessage(conflict ?? null);
+    if (!conflict) updatePrecedences([...precedences, candidate]);
+  };
+
+  const changeDemandMode = (mode: DemandMode) => {
+    setDemandMode(mode);
+    if (points.length === 0) return;
+    if (isRunning) cancelRun();
+    setPoints(mode === 'random' ? generateDemands(points, startNode) : withoutDemands(points));
+    clearResults();
+  };
+
+  // Keeps the cities and recomputes their distances under the new metric
+  const changeMetric = (newMetric: DistanceMetric) => {
+    setMetric(newMetric);
+    if (points.length === 0) return;
+    if (isRunning) cancelRun();
+    const matrix = buildDistanceMatrix(points, newMetric, directionFactors);
+    if (timeWindowMode !== 'none') setPoints(drawTimeWindows(points, matrix, startNode, timeWindowMode));
     setDistanceMatrix(matrix);
-    setGreedyResult(null);
-    setHeldKarpResult(null);
-    setChristofidesResult(null);
-    setGreedyStep(0);
-    setHeldKarpStep(0);
-    setChristofidesStep(0);
+    clearResults();
+  };
+
+  const clearResults = () => {
+    setResults({});
+    setLowerBounds(null);
+    setMultiStart(null);
+    setSelectedDpEntry(null);
+    setSelectedViolation(0);
+    setJobStatuses({});
+    setCurrentSteps({});
+    setPlaying({});
+  };
+
+  // Windows and demands are drawn around the start node, so a new start gets new ones
+  const changeStartNode = (node: number) => {
+    if (node === startNode) return;
+    if (isRunning) cancelRun();
+    setStartNode(node);
+    leaveChristofidesIfOpen(pathVariant, node, endNode);
+    if (timeWindowMode !== 'none' || demandMode === 'random') {
+      const windowed = timeWindowMode === 'none'
+        ? points
+        : drawTimeWindows(points, distanceMatrix, node, timeWindowMode);
+      setPoints(demandMode === 'random' ? generateDemands(windowed, node) : windowed);
+    }
+    clearResults();
   };
 
   const runAlgorithms = () => {
-    if (distanceMatrix.length === 0) return;
-    
+    const pool = poolRef.current;
+    if (distanceMatrix.length === 0 || !pool) return;
+
+    const runnable = ALGORITHMS.filter((algorithm) => !disabledReason(algorithm));
+
+    // Results arrive one solver at a time; keep them for the lower bounds once the run ends
+    const runResults: Partial<Record<AlgorithmId, TSPResult>> = {};
+    runResultsRef.current = runResults;
+
     setIsRunning(true);
-    
-    // Run algorithms with a small delay to allow UI to update
-    setTimeout(() => {
-      const greedy = greedyTSP(distanceMatrix);
-      setGreedyResult(greedy);
-      
-      const heldKarp = heldKarpTSP(distanceMatrix);
-      setHeldKarpResult(heldKarp);
-      
-      const christofides = christofidesTSP(distanceMatrix);
-      setChristofidesResult(christofides);
-      
-      setGreedyStep(0);
-      setHeldKarpStep(0);
-      setChristofidesStep(0);
-      setIsRunning(false);
-    }, 100);
+    setResults({});
+    setLowerBounds(null);
+    setMultiStart(null);
+    setSelectedDpEntry(null);
+    setCurrentSteps({});
+    setPlaying({});
+    setJobStatuses(Object.fromEntries(runnable.map((algorithm) => [algorithm.id, { state: 'queued', fraction: 0 }])));
+
+    pool.run(
+      runnable.map((algorithm) => algorithm.id),
+      {
+        points,
+        distanceMatrix,
+        startNode,
+        initialTour,
+        matchingMethod,
+        curve,
+        heldKarpLimit,
+        annealing: annealingOptions,
+        genetic: geneticOptions,
+        antColony: antColonyOptions,
+        tabuSearch: tabuSearchOptions,
+        iteratedLocalSearch: iteratedLocalSearchOptions,
+        vehicleRouting: { ...vehicleRouting, capacity: effectiveCapacity },
+        precedences: activePrecedences,
+        pathVariant: variant,
+        endNode
+      },
+      {
+        onStart: (id) => setJobStatus(id, { state: 'running', fraction: 0 }),
+        onProgress: (id, fraction) => setJobStatus(id, { state: 'running', fraction }),
+        onResult: (id, output) => {
+          runResults[id] = output.result;
+          setResults((prev) => ({ ...prev, [id]: output.result }));
+          if (output.multiStart) {
+            setMultiStart(output.multiStart);
+            setSelectedStart(output.multiStart.best);
+          }
+          setJobStatus(id, { state: 'done', fraction: 1 });
+        },
+        onError: (id, message) => setJobStatus(id, { state: 'failed', fraction: 0, message }),
+        onDone: () => finishRun(runResults)
+      }
+    );
   };
 
-  // Auto-play functionality
-  useEffect(() => {
-    if (!isPlayingGreedy || !greedyResult) return;
-    
-    const interval = setInterval(() => {
-      setGreedyStep((prev) => {
-        if (prev >= greedyResult.steps.length - 1) {
-          setIsPlayingGreedy(false);
-          return prev;
-        }
-        return prev + 1;
-      });
-    }, 1500);
-
-    return () => clearInterval(interval);
-  }, [isPlayingGreedy, greedyResult]);
+  const finishRun = (runResults: Partial<Record<AlgorithmId, TSPResult>>) => {
+    // Tour bounds say nothing useful about the total length of several routes
+    // Open paths are bounded through the same reduced instance the solvers ran on
+    if (Object.keys(runResults).length > 0 && problemType === 'tsp') {
+      const reduction = reduceToTour(points, distanceMatrix, startNode, variant, endNode);
+      const bounds = computeLowerBounds(reduction.distanceMatrix, bestKnownCost(runResults) + reduction.offset);
+      const mst = boundWithoutOffset(bounds.mst, reduction);
+      const oneTree = boundWithoutOffset(bounds.oneTree, reduction);
+      const assignment = boundWithoutOffset(bounds.assignment, reduction);
+      setLowerBounds({ mst, oneTree, assignment, best: Math.max(mst, oneTree, assignment) });
+    }
+    setIsRunning(false);
+  };
 
-  useEffect(() => {
-    if (!isPlayingHeldKarp || !heldKarpResult) return;
-    
-    const interval = setInterval(() => {
-      setHeldKarpStep((prev) => {
-        if (prev >= heldKarpResult.steps.length - 1) {
-          setIsPlayingHeldKarp(false);
-          return prev;
-        }
-        return prev + 1;
-      });
-    }, 1500);
-
-    return () => clearInterval(interval);
-  }, [isPlayingHeldKarp, heldKarpResult]);
+  // Stops every solver still running; results that already arrived are kept
+  const cancelRun = () => {
+    poolRef.current?.cancel();
+    setJobStatuses((prev) => Object.fromEntries(
+      Object.entries(prev).map(([id, status]) => [
+        id,
+        status && (status.state === 'queued' || status.state === 'running') ? { ...status, state: 'cancelled' } : status
+      ])
+    ));
+    finishRun(runResultsRef.current);
+  };
+
+  // The multi-start tab steps through whichever start node is selected in its chart
+  const traceFor = (id: AlgorithmId): TSPResult | undefined =>
+    id === 'multistart' && multiStart && results.multistart ? multiStart.runs[selectedStart] : results[id];
+
+  const selectMultiStartRun = (start: number) => {
+    setSelectedStart(start);
+    setStep('multistart', 0);
+    setIsPlaying('multistart', false);
+  };
 
+  // Auto-play functionality
   useEffect(() => {
-    if (!isPlayingChristofides || !christofidesResult) return;
-    
-    const interval = setInterval(() => {
-      setChristofidesStep((prev) => {
-        if (prev >= christofidesResult.steps.length - 1) {
-          setIsPlayingChristofides(false);
-          return prev;
-        }
-        return prev + 1;
-      });
-    }, 2000);
-
-    return () => clearInterval(interval);
-  }, [isPlayingChristofides, christofidesResult]);
+    const intervals = ALGORITHMS
+      .filter((algorithm) => playing[algorithm.id] && traceFor(algorithm.id))
+      .map((algorithm) => setInterval(() => {
+        const stepCount = traceFor(algorithm.id)!.steps.length;
+        setCurrentSteps((prev) => {
+          const current = prev[algorithm.id] ?? 0;
+          if (current >= stepCount - 1) {
+            setIsPlaying(algorithm.id, false);
+            return prev;
+          }
+          return { ...prev, [algorithm.id]: current + 1 };
+        });
+      }, algorithm.stepInterval));
+
+    return () => intervals.forEach(clearInterval);
+  }, [playing, results, multiStart, selectedStart]);
 
   const getCurrentStepData = () => {
-    if (activeTab === 'greedy' && greedyResult) {
-      return {
-        step: greedyResult.steps[greedyStep],
-        result: greedyResult,
-        currentStepIndex: greedyStep,
-        isPlaying: isPlayingGreedy,
-        setIsPlaying: setIsPlayingGreedy,
-        setStep: setGreedyStep,
-        color: '#16a34a',
-        name: 'Greedy Algorithm'
-      };
-    } else if (activeTab === 'heldkarp' && heldKarpResult) {
-      return {
-        step: heldKarpResult.steps[heldKarpStep],
-        result: heldKarpResult,
-        currentStepIndex: heldKarpStep,
-        isPlaying: isPlayingHeldKarp,
-        setIsPlaying: setIsPlayingHeldKarp,
-        setStep: setHeldKarpStep,
-        color: '#9333ea',
-        name: 'Held-Karp Algorithm'
-      };
-    } else if (activeTab === 'christofides' && christofidesResult) {
-      return {
-        step: christofidesResult.steps[christofidesStep],
-        result: christofidesResult,
-        currentStepIndex: christofidesStep,
-        isPlaying: isPlayingChristofides,
-        setIsPlaying: setIsPlayingChristofides,
-        setStep: setChristofidesStep,
-        color: '#ea580c',
-        name: 'Christofides Algorithm'
-      };
-    }
-    return null;
+    const algorithm = ALGORITHMS.find((a) => a.id === activeTab);
+    const result = traceFor(activeTab);
+    if (!algorithm || !result) return null;
+
+    const currentStepIndex = currentSteps[activeTab] ?? 0;
+    return {
+      step: result.steps[currentStepIndex],
+      result,
+      currentStepIndex,
+      isPlaying: playing[activeTab] ?? false,
+      setIsPlaying: (isPlaying: boolean) => setIsPlaying(activeTab, isPlaying),
+      setStep: (step: number) => setStep(activeTab, step),
+      color: algorithm.color,
+      name: activeTab === 'multistart' ? `${algorithm.name} (start node ${selectedStart})` : algorithm.name
+    };
   };
 
   const stepData = getCurrentStepData();
 
+  // Multi-start tours start wherever their run did; free-ended paths start wherever the solver put them
+  const shownStart = (id: AlgorithmId, step: AlgorithmStep): number => {
+    if (variant === 'path') return step.currentPath[0] ?? startNode;
+    return id === 'multistart' && closed ? selectedStart : startNode;
+  };
+  const asymmetric = !analysis.symmetric;
+  // Symmetric but non-metric: Christofides still runs, without its approximation guarantee
+  const nonMetricReasons = [
+    !analysis.zeroDiagonal && 'the diagonal is not zero',
+    analysis.triangleViolations > 0 &&
+      `${analysis.triangleViolations} triple${analysis.triangleViolations === 1 ? '' : 's'} break the triangle inequality`
+  ].filter(Boolean);
+  const christofidesWarning = analysis.symmetric && !analysis.metric
+    ? `The 1.5× guarantee does not apply: ${nonMetricReasons.join(' and ')}`
+    : undefined;
+  const shownViolation = analysis.examples[selectedViolation] ?? analysis.examples[0];
+  const hasResults = ALGORITHMS.some((algorithm) => results[algorithm.id]);
+  const bestCost = bestKnownCost(results);
+  // Sized for the graph on screen, which is what a run solves; open paths add a dummy city
+  const heldKarpCities = points.length + (closed ? 0 : 1);
+  const heldKarpEstimate = estimateHeldKarp(heldKarpCities, analysis.symmetric);
+  const showProgress = isRunning || Object.values(jobStatuses).some(
+    (status) => status?.state === 'failed' || status?.state === 'cancelled'
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-8">
       <div className="max-w-[1600px] mx-auto">
@@ -167,7 +912,7 @@ export default function App() {
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 mb-6">
           <Card className="p-6">
             <h2 className="mb-4">Controls</h2>
-            
+
             <div className="space-y-6">
               <div>
                 <Label>Number of Cities: {numCities}</Label>
@@ -179,23 +924,322 @@ export default function App() {
                   step={1}
                   className="mt-2"
                 />
-                {numCities > 20 && (
+              </div>
+
+              <div>
+                <Label htmlFor="instance-type">Instance Type</Label>
+                <select
+                  id="instance-type"
+                  value={instanceType}
+                  onChange={(e) => setInstanceType(e.target.value as InstanceType)}
+                  className="w-full mt-2 p-2 text-sm border rounded-md bg-white"
+                >
+                  <option value="symmetric">Symmetric (Euclidean)</option>
+                  <option value="asymmetric">Asymmetric (directed costs)</option>
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  {asymmetric ? 'Current graph is asymmetric: d(i, j) ≠ d(j, i)' : 'Applies to the next generated graph'}
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="distance-metric">Distance Metric</Label>
+                <select
+                  id="distance-metric"
+                  value={metric}
+                  onChange={(e) => changeMetric(e.target.value as DistanceMetric)}
+                  className="w-full mt-2 p-2 text-sm border rounded-md bg-white"
+                >
+                  {(Object.keys(METRIC_LABELS) as DistanceMetric[]).map((value) => (
+                    <option key={value} value={value}>{METRIC_LABELS[value]}</option>
+                  ))}
+                </select>
+                {metric === 'haversine' && (
+                  <p className="text-xs text-gray-500 mt-1">The canvas is read as a world map; costs are in kilometres</p>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="time-windows">Time Windows</Label>
+                <select
+                  id="time-windows"
+                  value={timeWindowMode}
+                  onChange={(e) => changeTimeWindows(e.target.value as TimeWindowTightness | 'none')}
+                  className="w-full mt-2 p-2 text-sm border rounded-md bg-white"
+                >
+                  <option value="none">None</option>
+                  <option value="tight">Tight windows</option>
+                  <option value="loose">Loose windows</option>
+                </select>
+                {timeWindowsOn && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Travel time equals distance; tours leave the start node when its window opens
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <Label>Held-Karp Limit: {heldKarpLimit} cities</Label>
+                <Slider
+                  value={[heldKarpLimit]}
+                  onValueChange={(value) => setHeldKarpLimit(value[0])}
+                  min={4}
+                  max={26}
+                  step={1}
+                  className="mt-2"
+                />
+                {points.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Estimate for the current {heldKarpCities} cities: {formatBytes(heldKarpEstimate.bytes)},{' '}
+                    {heldKarpEstimate.seconds < 1 ? '< 1 s' : `~${heldKarpEstimate.seconds.toFixed(0)} s`}
+                  </p>
+                )}
+                {points.length > 0 && heldKarpCities > heldKarpLimit && (
                   <p className="text-sm text-amber-600 mt-2">
-                    ⚠️ Held-Karp may be slow for {numCities} cities
+                    ⚠️ Held-Karp will be skipped for {heldKarpCities} cities
                   </p>
                 )}
               </div>
 
+              <div>
+                <Label htmlFor="problem-type">Problem</Label>
+                <select
+                  id="problem-type"
+                  value={problemType}
+                  onChange={(e) => changeProblemType(e.target.value as ProblemType)}
+                  className="w-full mt-2 p-2 text-sm border rounded-md bg-white"
+                >
+                  <option value="tsp">Single tour (TSP)</option>
+                  <option value="vrp">Vehicle routing (CVRP)</option>
+                </select>
+              </div>
+
+              {problemType === 'tsp' && (
+                <div>
+                  <Label htmlFor="path-variant">Route Shape</Label>
+                  <select
+                    id="path-variant"
+                    value={pathVariant}
+                    onChange={(e) => changePathVariant(e.target.value as PathVariant)}
+                    className="w-full mt-2 p-2 text-sm border rounded-md bg-white"
+                  >
+                    {(Object.keys(PATH_VARIANT_LABELS) as PathVariant[]).map((value) => (
+                      <option key={value} value={value}>{PATH_VARIANT_LABELS[value]}</option>
+                    ))}
+                  </select>
+                  {pathVariant === 'path' && (
+                    <p className="text-xs text-gray-500 mt-1">The solvers choose both ends; the start node is ignored</p>
+                  )}
+                  {pathVariant === 'fixedends' && variant === 'tour' && (
+                    <p className="text-sm text-amber-600 mt-2">
+                      ⚠️ Start and end are the same node, so this is solved as a closed tour
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {problemType === 'vrp' && (
+                <>
+                  <div>
+                    <Label>Vehicles: {vehicleRouting.vehicles}</Label>
+                    <Slider
+                      value={[vehicleRouting.vehicles]}
+                      onValueChange={(value) => setVehicleRouting({ ...vehicleRouting, vehicles: value[0] })}
+                      min={1}
+                      max={8}
+                      step={1}
+                      className="mt-2"
+                    />
+                  </div>
+
+                  <div>
+                    <Label htmlFor="demand-mode">Demands</Label>
+                    <select
+                      id="demand-mode"
+                      value={demandMode}
+                      onChange={(e) => changeDemandMode(e.target.value as DemandMode)}
+                      className="w-full mt-2 p-2 text-sm border rounded-md bg-white"
+                    >
+                      <option value="unit">One per city (split evenly)</option>
+                      <option value="random">Random demand 1–9</option>
+                    </select>
+                  </div>
+
+                  {demandMode === 'random' && (
+                    <div>
+                      <Label>Vehicle Capacity: {vehicleRouting.capacity}</Label>
+                      <Slider
+                        value={[vehicleRouting.capacity]}
+                        onValueChange={(value) => setVehicleRouting({ ...vehicleRouting, capacity: value[0] })}
+                        min={10}
+                        max={60}
+                        step={1}
+                        className="mt-2"
+                      />
+                    </div>
+                  )}
+
+                  <p className={`text-xs ${totalDemand > effectiveCapacity * vehicleRouting.vehicles ? 'text-amber-600' : 'text-gray-500'}`}>
+                    Total demand {totalDemand}, fleet capacity {effectiveCapacity * vehicleRouting.vehicles}
+                    {' '}({vehicleRouting.vehicles} × {effectiveCapacity})
+                  </p>
+                </>
+              )}
+
+              <div>
+                <Label htmlFor="start-node">{problemType === 'vrp' ? 'Depot' : 'Start Node'}</Label>
+                <select
+                  id="start-node"
+                  value={startNode}
+                  onChange={(e) => changeStartNode(Number(e.target.value))}
+                  disabled={points.length === 0}
+                  className="w-full mt-2 p-2 text-sm border rounded-md bg-white"
+                >
+                  {points.map((point) => (
+                    <option key={point.id} value={point.id}>Node {point.id}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Or click a node in the graph</p>
+              </div>
+
+              {problemType === 'tsp' && pathVariant === 'fixedends' && (
+                <div>
+                  <Label htmlFor="end-node">End Node</Label>
+                  <select
+                    id="end-node"
+                    value={endNode}
+                    onChange={(e) => changeEndNode(Number(e.target.value))}
+                    disabled={points.length === 0}
+                    className="w-full mt-2 p-2 text-sm border rounded-md bg-white"
+                  >
+                    {points.map((point) => (
+                      <option key={point.id} value={point.id}>Node {point.id}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {problemType === 'tsp' && (
+                <div>
+                  <Label htmlFor="precedence-mode">Precedence Constraints</Label>
+                  <select
+                    id="precedence-mode"
+                    value={constraintMode}
+                    onChange={(e) => changeConstraintMode(e.target.value as PrecedenceKind | 'off')}
+                    disabled={points.length === 0}
+                    className="w-full mt-2 p-2 text-sm border rounded-md bg-white"
+                  >
+                    <option value="off">Off (clicks pick the start node)</option>
+                    <option value="order">Draw "visit before" arrows</option>
+                    <option value="pickup">Mark pickup → delivery pairs</option>
+                  </select>
+                  {constraintMode !== 'off' && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {pendingConstraintNode === null
+                        ? `Click the ${constraintMode === 'pickup' ? 'pickup city' : 'city to visit first'}`
+                        : `Now click the ${constraintMode === 'pickup' ? 'delivery city' : 'city to visit'} after ${pendingConstraintNode}`}
+                    </p>
+                  )}
+                  {constraintMessage && (
+                    <p className="text-sm text-amber-600 mt-2">⚠️ {constraintMessage}</p>
+                  )}
+                  {precedences.some((c) => c.after === constraintStart) && (
+                    <p className="text-sm text-amber-600 mt-2">
+                      ⚠️ The start node {constraintStart} has to follow another city, so no tour can keep every constraint
+                    </p>
+                  )}
+                  {precedences.some((c) => c.before === constraintEnd) && (
+                    <p className="text-sm text-amber-600 mt-2">
+                      ⚠️ The end node {constraintEnd} has to come before another city, so no path can keep every constraint
+                    </p>
+                  )}
+                  {precedences.length > 0 && (
+                    <div className="space-y-2 text-sm mt-2">
+                      {precedences.map((constraint, index) => (
+                        <div
+                          key={`${constraint.before}-${constraint.after}`}
+                          className="flex items-center justify-between p-2 rounded-md border"
+                          title={describePrecedence(constraint)}
+                        >
+                          <span style={{ color: precedenceColor(constraint.kind) }}>
+                            {constraint.kind === 'pickup'
+                              ? `Pickup ${constraint.before} → delivery ${constraint.after}`
+                              : `${constraint.before} before ${constraint.after}`}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Remove constraint"
+                            onClick={() => updatePrecedences(precedences.filter((_, i) => i !== index))}
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      <Button onClick={() => updatePrecedences([])} className="w-full" variant="outline">
+                        Clear Constraints
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <Label htmlFor="matching-method">Christofides Matching</Label>
+                <select
+                  id="matching-method"
+                  value={matchingMethod}
+                  onChange={(e) => setMatchingMethod(e.target.value as MatchingMethod)}
+                  disabled={asymmetric}
+                  className="w-full mt-2 p-2 text-sm border rounded-md bg-white"
+                >
+                  <option value="exact">Exact (blossom algorithm)</option>
+                  <option value="greedy">Greedy pairing (no 1.5× guarantee)</option>
+                </select>
+                {asymmetric && (
+                  <p className="text-sm text-amber-600 mt-2">
+                    ⚠️ Christofides is disabled on asymmetric instances
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="space-filling-curve">Space-Filling Curve</Label>
+                <select
+                  id="space-filling-curve"
+                  value={curve}
+                  onChange={(e) => setCurve(e.target.value as SpaceFillingCurve)}
+                  className="w-full mt-2 p-2 text-sm border rounded-md bg-white"
+                >
+                  <option value="hilbert">Hilbert curve</option>
+                  <option value="sierpinski">Sierpinski curve</option>
+                </select>
+              </div>
+
+              <div>
+                <Label htmlFor="initial-tour">Local Search Start Tour</Label>
+                <select
+                  id="initial-tour"
+                  value={initialTour}
+                  onChange={(e) => setInitialTour(e.target.value as InitialTour)}
+                  className="w-full mt-2 p-2 text-sm border rounded-md bg-white"
+                >
+                  <option value="sequential">Sequential (0 → 1 → … → n-1)</option>
+                  <option value="greedy">Improve Greedy tour</option>
+                  <option value="christofides" disabled={asymmetric || !closed}>Improve Christofides tour</option>
+                </select>
+              </div>
+
               <div className="space-y-2">
-                <Button 
-                  onClick={generateGraph} 
+                <Button
+                  onClick={generateGraph}
                   className="w-full"
                   variant="outline"
                 >
                   <RefreshCw className="mr-2 h-4 w-4" />
                   Generate New Graph
                 </Button>
-                
+
                 <Button
                   onClick={runAlgorithms}
                   disabled={points.length === 0 || isRunning}
@@ -204,26 +1248,49 @@ export default function App() {
                   <PlayCircle className="mr-2 h-4 w-4" />
                   {isRunning ? 'Running...' : 'Run All Algorithms'}
                 </Button>
+
+                {isRunning && (
+                  <Button
+                    onClick={cancelRun}
+                    className="w-full"
+                    variant="outline"
+                  >
+                    <XCircle className="mr-2 h-4 w-4" />
+                    Cancel
+                  </Button>
+                )}
               </div>
 
+              {showProgress && (
+                <RunProgress algorithms={ALGORITHMS} statuses={jobStatuses} />
+              )}
+
+              <MetaheuristicSettings
+                annealing={annealingOptions}
+                onAnnealingChange={setAnnealingOptions}
+                genetic={geneticOptions}
+                onGeneticChange={setGeneticOptions}
+                antColony={antColonyOptions}
+                onAntColonyChange={setAntColonyOptions}
+                tabuSearch={tabuSearchOptions}
+                onTabuSearchChange={setTabuSearchOptions}
+                iteratedLocalSearch={iteratedLocalSearchOptions}
+                onIteratedLocalSearchChange={setIteratedLocalSearchOptions}
+              />
+
               <div className="pt-4 border-t">
                 <h3 className="mb-3">Algorithm Info</h3>
                 <div className="space-y-3 text-sm">
-                  <div>
-                    <p className="text-green-600">Greedy (Nearest Neighbor)</p>
-                    <p className="text-gray-600">Fast heuristic. O(n²)</p>
-                    <p className="text-xs text-gray-500 mt-1">Always picks nearest unvisited city</p>
-                  </div>
-                  <div>
-                    <p className="text-purple-600">Held-Karp (DP)</p>
-                    <p className="text-gray-600">Optimal solution. O(n² 2ⁿ)</p>
-                    <p className="text-xs text-gray-500 mt-1">Uses dynamic programming</p>
-                  </div>
-                  <div>
-                    <p className="text-orange-600">Christofides</p>
-                    <p className="text-gray-600">≤1.5× optimal. O(n³)</p>
-                    <p className="text-xs text-gray-500 mt-1">MST + matching + shortcutting</p>
-                  </div>
+                  {ALGORITHMS.map((algorithm) => (
+                    <div key={algorithm.id}>
+                      <p style={{ color: algorithm.color }}>{algorithm.info.title}</p>
+                      <p className="text-gray-600">{algorithm.info.complexity}</p>
+                      <p className="text-xs text-gray-500 mt-1">{algorithm.info.description}</p>
+                      {disabledReason(algorithm) && (
+                        <p className="text-xs text-amber-600 mt-1">Disabled: {disabledReason(algorithm)}</p>
+                      )}
+                    </div>
+                  ))}
                 </div>
               </div>
             </div>
@@ -243,63 +1310,80 @@ export default function App() {
                 </div>
               </Card>
             ) : (
-              <Tabs value={activeTab} onValueChange={setActiveTab}>
-                <TabsList className="grid w-full grid-cols-3">
-                  <TabsTrigger value="greedy">Greedy</TabsTrigger>
-                  <TabsTrigger value="heldkarp">Held-Karp</TabsTrigger>
-                  <TabsTrigger value="christofides">Christofides</TabsTrigger>
+              <Tabs value={activeTab} onValueChange={(value: string) => setActiveTab(value as AlgorithmId)}>
+                <TabsList className="w-full" style={{ height: 'auto', flexWrap: 'wrap' }}>
+                  {ALGORITHMS.map((algorithm) => (
+                    <TabsTrigger
+                      key={algorithm.id}
+                      value={algorithm.id}
+                      disabled={disabledReason(algorithm) !== undefined}
+                      title={disabledReason(algorithm) && `Disabled: ${disabledReason(algorithm)}`}
+                    >
+                      {algorithm.tabLabel}
+                    </TabsTrigger>
+                  ))}
                 </TabsList>
-                
-                <TabsContent value="greedy">
-                  <Card className="p-6">
-                    {greedyResult ? (
-                      <ReactFlowGraph
-                        points={points}
-                        path={greedyResult.steps[greedyStep].currentPath}
-                        highlightEdges={greedyResult.steps[greedyStep].exploringEdges}
-                        highlightEdge={greedyResult.steps[greedyStep].highlightEdge}
-                        currentNode={greedyResult.steps[greedyStep].currentNode}
-                        visitedNodes={greedyResult.steps[greedyStep].visitedNodes}
-                      />
-                    ) : (
-                      <ReactFlowGraph points={points} />
-                    )}
-                  </Card>
-                </TabsContent>
-                
-                <TabsContent value="heldkarp">
-                  <Card className="p-6">
-                    {heldKarpResult ? (
-                      <ReactFlowGraph
-                        points={points}
-                        path={heldKarpResult.steps[heldKarpStep].currentPath}
-                        highlightEdges={heldKarpResult.steps[heldKarpStep].exploringEdges}
-                        highlightEdge={heldKarpResult.steps[heldKarpStep].highlightEdge}
-                        currentNode={heldKarpResult.steps[heldKarpStep].currentNode}
-                        visitedNodes={heldKarpResult.steps[heldKarpStep].visitedNodes}
-                      />
-                    ) : (
-                      <ReactFlowGraph points={points} />
-                    )}
-                  </Card>
-                </TabsContent>
-                
-                <TabsContent value="christofides">
-                  <Card className="p-6">
-                    {christofidesResult ? (
-                      <ReactFlowGraph
-                        points={points}
-                        path={christofidesResult.steps[christofidesStep].currentPath}
-                        highlightEdges={christofidesResult.steps[christofidesStep].exploringEdges}
-                        highlightEdge={christofidesResult.steps[christofidesStep].highlightEdge}
-                        currentNode={christofidesResult.steps[christofidesStep].currentNode}
-                        visitedNodes={christofidesResult.steps[christofidesStep].visitedNodes}
-                      />
-                    ) : (
-                      <ReactFlowGraph points={points} />
-                    )}
-                  </Card>
-                </TabsContent>
+
+                {ALGORITHMS.map((algorithm) => {
+                  const result = traceFor(algorithm.id);
+                  const dpEntry = algorithm.id === 'heldkarp' && selectedDpEntry !== null
+                    ? result?.dpTable?.[selectedDpEntry]
+                    : undefined;
+                  const step = dpEntry ? dpEntryStep(dpEntry) : result?.steps[currentSteps[algorithm.id] ?? 0];
+
+                  const showViolation = algorithm.id === 'christofides' && christofidesWarning !== undefined;
+
+                  return (
+                    <TabsContent key={algorithm.id} value={algorithm.id}>
+                      <Card className="p-6">
+                        {showViolation && (
+                          <p className="text-sm text-amber-600 mb-4">
+                            ⚠️ {christofidesWarning}
+                            {shownViolation && `. Dotted: d(${shownViolation.i}, ${shownViolation.k}) exceeds the detour through ${shownViolation.j}`}
+                          </p>
+                        )}
+                        {step ? (
+                          <ReactFlowGraph
+                            points={points}
+                            path={step.currentPath}
+                            routes={step.routes}
+                            highlightEdges={step.exploringEdges}
+                            highlightEdge={step.highlightEdge}
+                            removedEdges={step.removedEdges}
+                            addedEdges={step.addedEdges}
+                            weightedEdges={step.edgeWeights}
+                            currentNode={step.currentNode}
+                            visitedNodes={step.visitedNodes}
+                            startNode={shownStart(algorithm.id, step)}
+                            endNode={variant === 'fixedends' ? endNode : undefined}
+                            violationEdges={showViolation && shownViolation ? violationEdges(shownViolation, distanceMatrix) : undefined}
+                            precedences={activePrecedences}
+                            onNodeSelect={selectNode}
+                            closed={closed}
+                            directed={asymmetric}
+                          />
+                        ) : (
+                          <ReactFlowGraph
+                            points={points}
+                            violationEdges={showViolation && shownViolation ? violationEdges(shownViolation, distanceMatrix) : undefined}
+                            startNode={startNode}
+                            endNode={variant === 'fixedends' ? endNode : undefined}
+                            precedences={activePrecedences}
+                            onNodeSelect={selectNode}
+                            directed={asymmetric}
+                          />
+                        )}
+                        {timeWindowsOn && step && !step.routes && (
+                          <ScheduleTimeline
+                            schedule={computeSchedule(step.currentPath, points, distanceMatrix, closed)}
+                            points={points}
+                            color={algorithm.color}
+                          />
+                        )}
+                      </Card>
+                    </TabsContent>
+                  );
+                })}
               </Tabs>
             )}
           </div>
@@ -315,44 +1399,105 @@ export default function App() {
               onPlayPause={() => stepData.setIsPlaying(!stepData.isPlaying)}
               algorithmName={stepData.name}
               color={stepData.color}
+              lateNodes={timeWindowsOn && !stepData.step.routes
+                ? computeSchedule(stepData.step.currentPath, points, distanceMatrix, closed).lateNodes
+                : undefined}
+              closed={closed}
             />
           </div>
         )}
 
-        {(greedyResult || heldKarpResult || christofidesResult) && (
+        {activeTab === 'multistart' && stepData && multiStart && (
+          <div className="mb-6">
+            <MultiStartChart
+              multiStart={multiStart}
+              selectedStart={selectedStart}
+              onSelectStart={selectMultiStartRun}
+              color={stepData.color}
+            />
+          </div>
+        )}
+
+        {activeTab === 'heldkarp' && stepData?.result.dpTable && (
+          <div className="mb-6">
+            <DPTablePanel
+              table={stepData.result.dpTable}
+              nodeCount={points.length}
+              steps={stepData.result.steps}
+              currentStep={stepData.currentStepIndex}
+              selectedEntry={selectedDpEntry}
+              onSelectEntry={setSelectedDpEntry}
+              color={stepData.color}
+            />
+          </div>
+        )}
+
+        {stepData?.result.searchTree && (
+          <div className="mb-6">
+            <SearchTreePanel
+              tree={stepData.result.searchTree}
+              steps={stepData.result.steps}
+              currentStep={stepData.currentStepIndex}
+              onStepChange={stepData.setStep}
+              color={stepData.color}
+            />
+          </div>
+        )}
+
+        {points.length > 0 && (
+          <div className="mb-6">
+            <InstanceAnalysisPanel
+              analysis={analysis}
+              selectedExample={selectedViolation}
+              onSelectExample={setSelectedViolation}
+            />
+          </div>
+        )}
+
+        {hasResults && (
           <div>
-            <h2 className="mb-4">Algorithm Comparison</h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2>Algorithm Comparison</h2>
+              <span className="text-sm text-gray-600">
+                {METRIC_LABELS[metric]} distances{asymmetric ? ', asymmetric' : ''}
+                {closed ? '' : `, ${PATH_VARIANT_LABELS[variant].toLowerCase()}`}
+              </span>
+            </div>
+            {lowerBounds && (
+              <div className="mb-6">
+                <LowerBoundPanel bounds={lowerBounds} bestCost={bestCost} />
+              </div>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-              {greedyResult && (
-                <AlgorithmResults
-                  name="Greedy Algorithm"
-                  cost={greedyResult.cost}
-                  executionTime={greedyResult.executionTime}
-                  path={greedyResult.path}
-                  color="#16a34a"
-                />
-              )}
-              
-              {heldKarpResult && (
-                <AlgorithmResults
-                  name="Held-Karp Algorithm"
-                  cost={heldKarpResult.cost}
-                  executionTime={heldKarpResult.executionTime}
-                  path={heldKarpResult.path}
-                  color="#9333ea"
-                  isOptimal={heldKarpResult.cost !== Infinity}
-                />
-              )}
-              
-              {christofidesResult && (
-                <AlgorithmResults
-                  name="Christofides Algorithm"
-                  cost={christofidesResult.cost}
-                  executionTime={christofidesResult.executionTime}
-                  path={christofidesResult.path}
-                  color="#ea580c"
-                />
-              )}
+              {ALGORITHMS.map((algorithm) => {
+                const result = results[algorithm.id];
+                if (!result) return null;
+
+                return (
+                  <AlgorithmResults
+                    key={algorithm.id}
+                    name={algorithm.name}
+                    cost={result.cost}
+                    executionTime={result.executionTime}
+                    path={result.path}
+                    routes={result.routes}
+                    color={algorithm.color}
+                    isOptimal={result.provenOptimal}
+                    lowerBound={lowerBounds?.best}
+                    warning={algorithm.id === 'christofides' ? christofidesWarning : undefined}
+                    lateArrivals={timeWindowsOn && result.path.length > 0 && !result.routes
+                      ? computeSchedule(result.path, points, distanceMatrix, closed).lateNodes.length
+                      : undefined}
+                    precedenceViolations={activePrecedences.length > 0 && result.path.length > 0 && !result.routes
+                      ? violatedPrecedences(result.path, activePrecedences).length
+                      : undefined}
+                    closed={closed}
+                    bestFoundAt={algorithm.iterationLabel && result.bestIteration !== undefined
+                      ? `${algorithm.iterationLabel} ${result.bestIteration}`
+                      : undefined}
+                  />
+                );
+              })}
             </div>
           </div>
         )}
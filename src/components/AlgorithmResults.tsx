@@ -1,13 +1,26 @@
 import { Card } from './ui/card';
 import { Badge } from './ui/badge';
+import { optimalityGap } from '../utils/lower-bounds';
+import { VehicleRoute } from '../utils/tsp-algorithms';
+import { routeColor } from './ReactFlowGraph';
 
 interface AlgorithmResultsProps {
   name: string;
   cost: number;
   executionTime: number;
   path: number[];
+  routes?: VehicleRoute[];
   color: string;
   isOptimal?: boolean;
+  bestFoundAt?: string;
+  lowerBound?: number;
+  warning?: string;
+  // Cities reached after their time window closes, on instances with windows
+  lateArrivals?: number;
+  // Precedence constraints the tour breaks, when there are any constraints
+  precedenceViolations?: number;
+  // Open paths are listed without the return to their first city
+  closed?: boolean;
 }
 
 export function AlgorithmResults({
@@ -15,8 +28,15 @@ export function AlgorithmResults({
   cost,
   executionTime,
   path,
+  routes,
   color,
-  isOptimal = false
+  isOptimal = false,
+  bestFoundAt,
+  lowerBound,
+  warning,
+  lateArrivals,
+  precedenceViolations,
+  closed = true
 }: AlgorithmResultsProps) {
   return (
     <Card className="p-4">
@@ -37,13 +57,64 @@ export function AlgorithmResults({
           <span className="text-gray-600">Execution Time:</span>
           <span>{executionTime.toFixed(3)} ms</span>
         </div>
+
+        {lowerBound !== undefined && cost !== Infinity && (
+          <div className="flex justify-between">
+            <span className="text-gray-600">Gap to Lower Bound:</span>
+            <span>{optimalityGap(cost, lowerBound).toFixed(2)}%</span>
+          </div>
+        )}
+
+        {lateArrivals !== undefined && (
+          <div className="flex justify-between">
+            <span className="text-gray-600">Late Arrivals:</span>
+            <span className={lateArrivals > 0 ? 'text-orange-600' : 'text-green-600'}>
+              {lateArrivals > 0 ? lateArrivals : 'None'}
+            </span>
+          </div>
+        )}
+
+        {precedenceViolations !== undefined && (
+          <div className="flex justify-between">
+            <span className="text-gray-600">Precedence Violations:</span>
+            <span className={precedenceViolations > 0 ? 'text-orange-600' : 'text-green-600'}>
+              {precedenceViolations > 0 ? precedenceViolations : 'None'}
+            </span>
+          </div>
+        )}
+
+        {bestFoundAt && (
+          <div className="flex justify-between">
+            <span className="text-gray-600">Best Found At:</span>
+            <span>{bestFoundAt}</span>
+          </div>
+        )}
         
-        <div className="flex flex-col gap-1">
-          <span className="text-gray-600">Path:</span>
-          <div className="text-sm bg-gray-50 p-2 rounded">
-            {path.length > 0 ? path.join(' → ') + ' → ' + path[0] : 'N/A'}
+        {warning && (
+          <p className="text-sm text-amber-600">⚠️ {warning}</p>
+        )}
+
+        {routes ? (
+          <div className="flex flex-col gap-1">
+            <span className="text-gray-600">Routes:</span>
+            {routes.map((route, r) => (
+              <div key={r} className="text-sm bg-gray-50 p-2 rounded">
+                <div className="flex justify-between">
+                  <span style={{ color: routeColor(r) }}>Vehicle {r + 1}</span>
+                  <span>{route.cost.toFixed(2)} (load {route.load})</span>
+                </div>
+                <div>{route.path.join(' → ') + ' → ' + route.path[0]}</div>
+              </div>
+            ))}
           </div>
-        </div>
+        ) : (
+          <div className="flex flex-col gap-1">
+            <span className="text-gray-600">Path:</span>
+            <div className="text-sm bg-gray-50 p-2 rounded">
+              {path.length > 0 ? path.join(' → ') + (closed ? ' → ' + path[0] : '') : 'N/A'}
+            </div>
+          </div>
+        )}
       </div>
     </Card>
   );
@@ -4,6 +4,7 @@ import { Button } from './ui/button';
 import { Slider } from './ui/slider';
 import { Badge } from './ui/badge';
 import { Play, Pause, SkipBack, SkipForward, RotateCcw } from 'lucide-react';
+import { ConvergenceChart } from './ConvergenceChart';
 import { AlgorithmStep } from '../utils/tsp-algorithms';
 
 interface AlgorithmStepperProps {
@@ -14,6 +15,10 @@ interface AlgorithmStepperProps {
   onPlayPause: () => void;
   algorithmName: string;
   color: string;
+  // Cities the current path reaches after their time window closes
+  lateNodes?: number[];
+  // Open paths end at their last city instead of returning to the first
+  closed?: boolean;
 }
 
 export function AlgorithmStepper({
@@ -23,9 +28,12 @@ export function AlgorithmStepper({
   isPlaying,
   onPlayPause,
   algorithmName,
-  color
+  color,
+  lateNodes = [],
+  closed = true
 }: AlgorithmStepperProps) {
   const step = steps[currentStep] || steps[0];
+  const showConvergence = steps.some((s) => s.bestCost !== undefined);
 
   const handlePrevious = () => {
     if (currentStep > 0) {
@@ -69,12 +77,53 @@ export function AlgorithmStepper({
           </div>
         )}
 
+        {step.costDelta !== undefined && (
+          <div className="flex justify-between items-center p-3 bg-blue-50 rounded-lg">
+            <span>Cost Change:</span>
+            <span style={{ color: step.costDelta < 0 ? '#16a34a' : '#ef4444' }}>
+              {step.costDelta > 0 ? '+' : ''}{step.costDelta.toFixed(2)}
+            </span>
+          </div>
+        )}
+
+        {lateNodes.length > 0 && (
+          <div className="flex justify-between items-center p-3 rounded-lg" style={{ backgroundColor: '#fef2f2' }}>
+            <span>Infeasible Arrivals:</span>
+            <span style={{ color: '#dc2626' }}>
+              {lateNodes.length === 1 ? 'City' : 'Cities'} {lateNodes.join(', ')} arrive after the window closes
+            </span>
+          </div>
+        )}
+
+        {step.rejectedReason && (
+          <div className="flex justify-between items-center p-3 rounded-lg" style={{ backgroundColor: '#fffbeb' }}>
+            <span>Move Rejected:</span>
+            <span className="text-amber-600">{step.rejectedReason}</span>
+          </div>
+        )}
+
+        {showConvergence && (
+          <div className="flex flex-col gap-2">
+            <span className="text-sm text-gray-600">Convergence (click to jump to a step):</span>
+            <ConvergenceChart
+              steps={steps}
+              currentStep={currentStep}
+              onStepChange={onStepChange}
+              color={color}
+            />
+          </div>
+        )}
+
         {step.currentPath.length > 0 && (
           <div className="flex flex-col gap-2">
             <span className="text-sm text-gray-600">Current Path:</span>
             <div className="text-sm bg-white p-2 rounded border">
-              {step.currentPath.join(' → ')}
-              {step.currentPath.length > 1 && ' → ' + step.currentPath[0]}
+              {[...step.currentPath, ...(closed && step.currentPath.length > 1 ? [step.currentPath[0]] : [])].map((node, index) => (
+                <span key={index}>
+                  {index > 0 && ' → '}
+                  <span style={lateNodes.includes(node) ? { color: '#dc2626', fontWeight: 600 } : undefined}>{node}</span>
+                </span>
+              ))}
             </div>
           </div>
         )}
@@ -0,0 +1,115 @@
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from './ui/chart';
+import { AlgorithmStep } from '../utils/tsp-algorithms';
+
+interface ConvergenceChartProps {
+  steps: AlgorithmStep[];
+  currentStep: number;
+  onStepChange: (step: number) => void;
+  color: string;
+}
+
+export function ConvergenceChart({
+  steps,
+  currentStep,
+  onStepChange,
+  color
+}: ConvergenceChartProps) {
+  const hasTemperature = steps.some((step) => step.temperature !== undefined);
+
+  const chartConfig: ChartConfig = {
+    cost: { label: 'Current Cost', color },
+    bestCost: { label: 'Best Cost', color: '#6366f1' },
+    temperature: { label: 'Temperature', color: '#f59e0b' },
+  };
+
+  const data = steps.map((step, idx) => ({
+    step: idx + 1,
+    cost: step.cost,
+    bestCost: step.bestCost,
+    temperature: step.temperature,
+  }));
+
+  const legendKeys = hasTemperature ? ['cost', 'bestCost', 'temperature'] : ['cost', 'bestCost'];
+
+  return (
+    <div className="flex flex-col gap-2">
+      <ChartContainer config={chartConfig} style={{ height: 240, aspectRatio: 'auto' }}>
+        <LineChart
+          data={data}
+          margin={{ top: 8, right: 8, bottom: 0, left: 8 }}
+          onClick={(state) => {
+            if (state?.activeTooltipIndex !== undefined) {
+              onStepChange(state.activeTooltipIndex);
+            }
+          }}
+        >
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="step" tickLine={false} axisLine={false} />
+          <YAxis
+            yAxisId="cost"
+            tickLine={false}
+            axisLine={false}
+            domain={['auto', 'auto']}
+            tickFormatter={(value: number) => value.toFixed(0)}
+          />
+          {hasTemperature && (
+            <YAxis
+              yAxisId="temperature"
+              orientation="right"
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value: number) => value.toFixed(0)}
+            />
+          )}
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <ReferenceLine yAxisId="cost" x={currentStep + 1} stroke="#9ca3af" strokeDasharray="4 4" />
+          <Line
+            yAxisId="cost"
+            dataKey="cost"
+            type="monotone"
+            stroke="var(--color-cost)"
+            dot={false}
+            isAnimationActive={false}
+          />
+          <Line
+            yAxisId="cost"
+            dataKey="bestCost"
+            type="stepAfter"
+            stroke="var(--color-bestCost)"
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+          {hasTemperature && (
+            <Line
+              yAxisId="temperature"
+              dataKey="temperature"
+              type="monotone"
+              stroke="var(--color-temperature)"
+              strokeDasharray="4 2"
+              dot={false}
+              isAnimationActive={false}
+            />
+          )}
+        </LineChart>
+      </ChartContainer>
+      <div className="flex items-center justify-center gap-4 text-xs">
+        {legendKeys.map((key) => (
+          <div key={key} className="flex items-center gap-1.5">
+            <span
+              className="rounded"
+              style={{ width: 10, height: 10, backgroundColor: chartConfig[key].color }}
+            />
+            {chartConfig[key].label}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { AlgorithmStep, DPTableEntry } from '../utils/tsp-algorithms';
+
+interface DPTablePanelProps {
+  table: DPTableEntry[];
+  nodeCount: number;
+  steps: AlgorithmStep[];
+  currentStep: number;
+  selectedEntry: number | null;
+  onSelectEntry: (index: number | null) => void;
+  color: string;
+}
+
+// Subset as a bitmask with node 0 as the rightmost bit
+function formatMask(subset: number[], nodeCount: number): string {
+  const mask = subset.reduce((acc, node) => acc | (1 << node), 0);
+  return mask.toString(2).padStart(nodeCount, '0');
+}
+
+export function DPTablePanel({
+  table,
+  nodeCount,
+  steps,
+  currentStep,
+  selectedEntry,
+  onSelectEntry,
+  color
+}: DPTablePanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  const [layerFilter, setLayerFilter] = useState<number | 'all'>('all');
+
+  // Layers appear in the table as the stepper reaches them
+  const completedLayer = steps
+    .slice(0, currentStep + 1)
+    .reduce((max, step) => Math.max(max, step.dpLayer ?? 0), 0);
+  const currentLayer = steps[currentStep]?.dpLayer;
+  const layers = Array.from({ length: completedLayer }, (_, i) => i + 1);
+  const shownLayer = layerFilter !== 'all' && layerFilter <= completedLayer ? layerFilter : 'all';
+
+  const rows = table
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => entry.layer <= completedLayer && (shownLayer === 'all' || entry.layer === shownLayer));
+
+  const cellStyle = { padding: '4px 12px', textAlign: 'left' as const };
+
+  return (
+    <Card className="p-6">
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center gap-2">
+            DP Table
+            <Badge style={{ backgroundColor: color, color: 'white' }}>
+              {rows.length} of {table.length} entries
+            </Badge>
+          </h3>
+          <CollapsibleTrigger asChild>
+            <Button variant="outline" size="sm">
+              {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            </Button>
+          </CollapsibleTrigger>
+        </div>
+
+        <CollapsibleContent>
+          <div className="flex items-center justify-between gap-4 mt-4">
+            <p className="text-sm text-gray-600">
+              Click an entry to show its partial path on the graph
+            </p>
+            <select
+              value={shownLayer}
+              onChange={(e) => setLayerFilter(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+              className="p-2 text-sm border rounded-md bg-white"
+            >
+              <option value="all">All layers</option>
+              {layers.map((layer) => (
+                <option key={layer} value={layer}>Subsets of size {layer}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="mt-4 border rounded-lg" style={{ maxHeight: 320, overflowY: 'auto' }}>
+            <table className="w-full text-sm" style={{ borderCollapse: 'collapse' }}>
+              <thead className="bg-gray-50" style={{ position: 'sticky', top: 0 }}>
+                <tr>
+                  <th style={cellStyle}>Subset</th>
+                  <th style={cellStyle}>Last</th>
+                  <th style={cellStyle}>Cost</th>
+                  <th style={cellStyle}>Parent</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ entry, index }) => {
+                  const isSelected = index === selectedEntry;
+                  return (
+                    <tr
+                      key={index}
+                      onClick={() => onSelectEntry(isSelected ? null : index)}
+                      className={`border-t ${isSelected ? 'bg-blue-50' : ''}`}
+                      style={{ cursor: 'pointer', fontWeight: entry.layer === currentLayer ? 500 : undefined }}
+                    >
+                      <td style={cellStyle}>
+                        <span style={{ fontFamily: 'monospace' }}>{formatMask(entry.subset, nodeCount)}</span>
+                        <span className="text-gray-500"> {'{'}{entry.subset.join(', ')}{'}'}</span>
+                      </td>
+                      <td style={cellStyle}>{entry.last}</td>
+                      <td style={cellStyle}>{entry.cost.toFixed(2)}</td>
+                      <td style={cellStyle}>{entry.parent}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
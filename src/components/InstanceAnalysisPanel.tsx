@@ -0,0 +1,85 @@
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import { InstanceAnalysis } from '../utils/instance-analyzer';
+
+interface InstanceAnalysisPanelProps {
+  analysis: InstanceAnalysis;
+  selectedExample: number;
+  onSelectExample: (index: number) => void;
+}
+
+export function InstanceAnalysisPanel({ analysis, selectedExample, onSelectExample }: InstanceAnalysisPanelProps) {
+  const checks = [
+    {
+      label: 'Symmetry',
+      passed: analysis.symmetric,
+      detail: analysis.symmetric
+        ? 'd(i, j) = d(j, i) for every pair'
+        : `${analysis.asymmetricPairs} pair${analysis.asymmetricPairs === 1 ? '' : 's'} differ by direction`,
+    },
+    {
+      label: 'Zero Diagonal',
+      passed: analysis.zeroDiagonal,
+      detail: analysis.zeroDiagonal ? 'd(i, i) = 0 for every city' : 'Some cities have a non-zero self distance',
+    },
+    {
+      label: 'Triangle Inequality',
+      passed: analysis.triangleViolations === 0,
+      detail: analysis.triangleViolations === 0
+        ? 'No detour is shorter than a direct edge'
+        : `${analysis.triangleViolations} violating triple${analysis.triangleViolations === 1 ? '' : 's'}`,
+    },
+  ];
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="flex items-center gap-2">
+          Instance Analysis
+          <Badge variant={analysis.metric ? 'default' : 'destructive'}>
+            {analysis.metric ? 'Metric' : 'Non-metric'}
+          </Badge>
+        </h3>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {checks.map((check) => (
+          <div key={check.label} className="bg-gray-50 p-3 rounded-lg">
+            <div className="flex justify-between">
+              <span className="text-gray-600">{check.label}:</span>
+              <span className={check.passed ? 'text-green-600' : 'text-orange-600'}>
+                {check.passed ? 'Pass' : 'Fail'}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">{check.detail}</p>
+          </div>
+        ))}
+      </div>
+
+      {analysis.examples.length > 0 && (
+        <div className="mt-4">
+          <p className="text-sm text-gray-600 mb-2">
+            Worst violations. Click one to show it on the Christofides graph
+          </p>
+          <div className="space-y-2 text-sm">
+            {analysis.examples.map((example, index) => (
+              <div
+                key={`${example.i}-${example.j}-${example.k}`}
+                onClick={() => onSelectExample(index)}
+                className={`flex justify-between p-2 rounded-md border ${index === selectedExample ? 'bg-blue-50' : ''}`}
+                style={{ cursor: 'pointer' }}
+              >
+                <span>
+                  d({example.i}, {example.k}) = {example.direct.toFixed(2)}
+                </span>
+                <span className="text-gray-600">
+                  &gt; d({example.i}, {example.j}) + d({example.j}, {example.k}) = {example.detour.toFixed(2)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
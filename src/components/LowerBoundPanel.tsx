@@ -0,0 +1,44 @@
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import { LowerBounds } from '../utils/lower-bounds';
+
+interface LowerBoundPanelProps {
+  bounds: LowerBounds;
+  bestCost: number;
+}
+
+export function LowerBoundPanel({ bounds, bestCost }: LowerBoundPanelProps) {
+  const rows = [
+    { label: 'Minimum Spanning Tree', value: bounds.mst, hint: 'A tour minus one edge is a spanning tree' },
+    { label: 'Held-Karp 1-Tree', value: bounds.oneTree, hint: 'Subgradient-optimised node penalties' },
+    { label: 'Assignment', value: bounds.assignment, hint: 'One successor per city, subtours allowed' },
+  ];
+
+  // When the best tour meets the bound, optimality is proven
+  const isProven = bestCost - bounds.best < 1e-6;
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="flex items-center gap-2">
+          Lower Bounds
+          {isProven && <Badge variant="default">Best tour proven optimal</Badge>}
+        </h3>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {rows.map((row) => (
+          <div key={row.label} className="bg-gray-50 p-3 rounded-lg">
+            <div className="flex justify-between">
+              <span className="text-gray-600">{row.label}:</span>
+              <span style={{ fontWeight: row.value === bounds.best ? 600 : undefined }}>
+                {row.value.toFixed(2)}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">{row.hint}</p>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
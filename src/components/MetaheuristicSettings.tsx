@@ -0,0 +1,303 @@
+import { Slider } from './ui/slider';
+import { Label } from './ui/label';
+import {
+  AntColonyOptions,
+  AntColonyVariant,
+  CoolingSchedule,
+  CrossoverOperator,
+  GeneticOptions,
+  IteratedLocalSearchOptions,
+  SimulatedAnnealingOptions,
+  TabuSearchOptions
+} from '../utils/metaheuristics';
+
+interface MetaheuristicSettingsProps {
+  annealing: SimulatedAnnealingOptions;
+  onAnnealingChange: (options: SimulatedAnnealingOptions) => void;
+  genetic: GeneticOptions;
+  onGeneticChange: (options: GeneticOptions) => void;
+  antColony: AntColonyOptions;
+  onAntColonyChange: (options: AntColonyOptions) => void;
+  tabuSearch: TabuSearchOptions;
+  onTabuSearchChange: (options: TabuSearchOptions) => void;
+  iteratedLocalSearch: IteratedLocalSearchOptions;
+  onIteratedLocalSearchChange: (options: IteratedLocalSearchOptions) => void;
+}
+
+export function MetaheuristicSettings({
+  annealing,
+  onAnnealingChange,
+  genetic,
+  onGeneticChange,
+  antColony,
+  onAntColonyChange,
+  tabuSearch,
+  onTabuSearchChange,
+  iteratedLocalSearch,
+  onIteratedLocalSearchChange
+}: MetaheuristicSettingsProps) {
+  return (
+    <>
+      <div className="pt-4 border-t space-y-4">
+        <h3>Simulated Annealing</h3>
+
+        <div>
+          <Label htmlFor="sa-temperature">Initial Temperature</Label>
+          <input
+            id="sa-temperature"
+            type="number"
+            min={1}
+            value={annealing.initialTemperature}
+            onChange={(e) => onAnnealingChange({
+              ...annealing,
+              initialTemperature: Math.max(1, Number(e.target.value) || 1)
+            })}
+            className="w-full mt-2 p-2 text-sm border rounded-md bg-white"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="sa-cooling">Cooling Schedule</Label>
+          <select
+            id="sa-cooling"
+            value={annealing.coolingSchedule}
+            onChange={(e) => onAnnealingChange({
+              ...annealing,
+              coolingSchedule: e.target.value as CoolingSchedule
+            })}
+            className="w-full mt-2 p-2 text-sm border rounded-md bg-white"
+          >
+            <option value="geometric">Geometric (T₀ · αᵏ)</option>
+            <option value="linear">Linear (T₀ · (1 − k/K))</option>
+            <option value="logarithmic">Logarithmic (T₀ · ln 2 / ln(k + 2))</option>
+          </select>
+        </div>
+
+        <div>
+          <Label>Iterations: {annealing.iterations.toLocaleString()}</Label>
+          <Slider
+            value={[annealing.iterations]}
+            onValueChange={(value) => onAnnealingChange({ ...annealing, iterations: value[0] })}
+            min={1000}
+            max={200000}
+            step={1000}
+            className="mt-2"
+          />
+        </div>
+      </div>
+
+      <div className="pt-4 border-t space-y-4">
+        <h3>Genetic Algorithm</h3>
+
+        <div>
+          <Label>Population Size: {genetic.populationSize}</Label>
+          <Slider
+            value={[genetic.populationSize]}
+            onValueChange={(value) => onGeneticChange({
+              ...genetic,
+              populationSize: value[0],
+              elitism: Math.min(genetic.elitism, value[0])
+            })}
+            min={10}
+            max={200}
+            step={10}
+            className="mt-2"
+          />
+        </div>
+
+        <div>
+          <Label>Generations: {genetic.generations}</Label>
+          <Slider
+            value={[genetic.generations]}
+            onValueChange={(value) => onGeneticChange({ ...genetic, generations: value[0] })}
+            min={10}
+            max={500}
+            step={10}
+            className="mt-2"
+          />
+        </div>
+
+        <div>
+          <Label>Mutation Rate: {(genetic.mutationRate * 100).toFixed(0)}%</Label>
+          <Slider
+            value={[genetic.mutationRate * 100]}
+            onValueChange={(value) => onGeneticChange({ ...genetic, mutationRate: value[0] / 100 })}
+            min={0}
+            max={100}
+            step={1}
+            className="mt-2"
+          />
+        </div>
+
+        <div>
+          <Label>Elitism: {genetic.elitism}</Label>
+          <Slider
+            value={[genetic.elitism]}
+            onValueChange={(value) => onGeneticChange({ ...genetic, elitism: value[0] })}
+            min={0}
+            max={Math.min(10, genetic.populationSize)}
+            step={1}
+            className="mt-2"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="ga-crossover">Crossover</Label>
+          <select
+            id="ga-crossover"
+            value={genetic.crossover}
+            onChange={(e) => onGeneticChange({
+              ...genetic,
+              crossover: e.target.value as CrossoverOperator
+            })}
+            className="w-full mt-2 p-2 text-sm border rounded-md bg-white"
+          >
+            <option value="ox">Order crossover (OX)</option>
+            <option value="pmx">Partially mapped (PMX)</option>
+            <option value="erx">Edge recombination (ERX)</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="pt-4 border-t space-y-4">
+        <h3>Ant Colony Optimization</h3>
+
+        <div>
+          <Label htmlFor="aco-variant">Variant</Label>
+          <select
+            id="aco-variant"
+            value={antColony.variant}
+            onChange={(e) => onAntColonyChange({
+              ...antColony,
+              variant: e.target.value as AntColonyVariant
+            })}
+            className="w-full mt-2 p-2 text-sm border rounded-md bg-white"
+          >
+            <option value="as">Ant System</option>
+            <option value="mmas">Max-Min Ant System</option>
+          </select>
+        </div>
+
+        <div>
+          <Label>Ants: {antColony.ants}</Label>
+          <Slider
+            value={[antColony.ants]}
+            onValueChange={(value) => onAntColonyChange({ ...antColony, ants: value[0] })}
+            min={1}
+            max={100}
+            step={1}
+            className="mt-2"
+          />
+        </div>
+
+        <div>
+          <Label>Iterations: {antColony.iterations}</Label>
+          <Slider
+            value={[antColony.iterations]}
+            onValueChange={(value) => onAntColonyChange({ ...antColony, iterations: value[0] })}
+            min={5}
+            max={300}
+            step={5}
+            className="mt-2"
+          />
+        </div>
+
+        <div>
+          <Label>Pheromone Influence α: {antColony.alpha}</Label>
+          <Slider
+            value={[antColony.alpha]}
+            onValueChange={(value) => onAntColonyChange({ ...antColony, alpha: value[0] })}
+            min={0}
+            max={5}
+            step={0.5}
+            className="mt-2"
+          />
+        </div>
+
+        <div>
+          <Label>Distance Influence β: {antColony.beta}</Label>
+          <Slider
+            value={[antColony.beta]}
+            onValueChange={(value) => onAntColonyChange({ ...antColony, beta: value[0] })}
+            min={0}
+            max={10}
+            step={0.5}
+            className="mt-2"
+          />
+        </div>
+
+        <div>
+          <Label>Evaporation ρ: {antColony.evaporation.toFixed(2)}</Label>
+          <Slider
+            value={[antColony.evaporation]}
+            onValueChange={(value) => onAntColonyChange({ ...antColony, evaporation: value[0] })}
+            min={0.01}
+            max={0.99}
+            step={0.01}
+            className="mt-2"
+          />
+        </div>
+      </div>
+
+      <div className="pt-4 border-t space-y-4">
+        <h3>Tabu Search</h3>
+
+        <div>
+          <Label>Iterations: {tabuSearch.iterations.toLocaleString()}</Label>
+          <Slider
+            value={[tabuSearch.iterations]}
+            onValueChange={(value) => onTabuSearchChange({ ...tabuSearch, iterations: value[0] })}
+            min={100}
+            max={10000}
+            step={100}
+            className="mt-2"
+          />
+        </div>
+
+        <div>
+          <Label>Tabu Tenure: {tabuSearch.tenure}</Label>
+          <Slider
+            value={[tabuSearch.tenure]}
+            onValueChange={(value) => onTabuSearchChange({ ...tabuSearch, tenure: value[0] })}
+            min={1}
+            max={50}
+            step={1}
+            className="mt-2"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="tabu-aspiration">Aspiration</Label>
+          <select
+            id="tabu-aspiration"
+            value={tabuSearch.aspiration ? 'best' : 'off'}
+            onChange={(e) => onTabuSearchChange({
+              ...tabuSearch,
+              aspiration: e.target.value === 'best'
+            })}
+            className="w-full mt-2 p-2 text-sm border rounded-md bg-white"
+          >
+            <option value="best">Tabu moves allowed when they beat the best tour</option>
+            <option value="off">Off</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="pt-4 border-t space-y-4">
+        <h3>Iterated Local Search</h3>
+
+        <div>
+          <Label>Double-Bridge Kicks: {iteratedLocalSearch.kicks}</Label>
+          <Slider
+            value={[iteratedLocalSearch.kicks]}
+            onValueChange={(value) => onIteratedLocalSearchChange({ ...iteratedLocalSearch, kicks: value[0] })}
+            min={10}
+            max={2000}
+            step={10}
+            className="mt-2"
+          />
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,98 @@
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from 'recharts';
+import { Card } from './ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from './ui/chart';
+import { MultiStartResult } from '../utils/tsp-algorithms';
+
+interface MultiStartChartProps {
+  multiStart: MultiStartResult;
+  selectedStart: number;
+  onSelectStart: (start: number) => void;
+  color: string;
+}
+
+export function MultiStartChart({
+  multiStart,
+  selectedStart,
+  onSelectStart,
+  color
+}: MultiStartChartProps) {
+  const { runs, best, worst, median } = multiStart;
+
+  const chartConfig: ChartConfig = {
+    cost: { label: 'Tour Cost', color },
+  };
+
+  const data = runs.map((run, start) => ({
+    start: String(start),
+    cost: run.cost,
+  }));
+
+  const summary = [
+    { label: 'Best', start: best, className: 'text-green-600' },
+    { label: 'Median', start: median, className: 'text-gray-600' },
+    { label: 'Worst', start: worst, className: 'text-orange-600' },
+  ];
+
+  const spread = runs[best].cost > 0 ? ((runs[worst].cost - runs[best].cost) / runs[best].cost) * 100 : 0;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3>Cost per Start Node</h3>
+        <span className="text-sm text-gray-600">
+          Worst is {spread.toFixed(1)}% above best. Click a bar to step through that run
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        {summary.map((item) => (
+          <div key={item.label} className="bg-gray-50 p-3 rounded-lg">
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">{item.label} start:</span>
+              <span className={item.className}>Node {item.start}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Cost:</span>
+              <span>{runs[item.start].cost.toFixed(2)}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <ChartContainer config={chartConfig} style={{ height: 240, aspectRatio: 'auto' }}>
+        <BarChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="start" tickLine={false} axisLine={false} />
+          <YAxis
+            tickLine={false}
+            axisLine={false}
+            domain={['auto', 'auto']}
+            tickFormatter={(value: number) => value.toFixed(0)}
+          />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(label: string) => `Start node ${label}`} />} />
+          <Bar
+            dataKey="cost"
+            isAnimationActive={false}
+            onClick={(_, index: number) => onSelectStart(index)}
+            style={{ cursor: 'pointer' }}
+          >
+            {data.map((entry, start) => (
+              <Cell
+                key={entry.start}
+                fill={start === best ? '#16a34a' : start === worst ? '#ea580c' : 'var(--color-cost)'}
+                fillOpacity={start === selectedStart ? 1 : 0.55}
+                stroke={start === selectedStart ? '#111827' : undefined}
+                strokeWidth={start === selectedStart ? 2 : 0}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+    </Card>
+  );
+}
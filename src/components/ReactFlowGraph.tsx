@@ -11,26 +11,70 @@ import ReactFlow, {
 } from 'reactflow';
 import 'reactflow/dist/style.css';
 import { Point } from '../utils/graph-generator';
+import { PrecedenceConstraint, PrecedenceKind } from '../utils/precedence';
+
+const ROUTE_COLORS = ['#6366f1', '#16a34a', '#ea580c', '#db2777', '#0891b2', '#ca8a04', '#7c3aed', '#dc2626'];
+
+// Colour of the vehicle with the given index, shared by the graph and the results cards
+export function routeColor(index: number): string {
+  return ROUTE_COLORS[index % ROUTE_COLORS.length];
+}
+
+// Colour of a precedence arrow, shared by the graph and the constraint list
+export function precedenceColor(kind: PrecedenceKind): string {
+  return kind === 'pickup' ? '#0d9488' : '#db2777';
+}
 
 interface ReactFlowGraphProps {
   points: Point[];
   path?: number[];
+  // Closed routes that all start at the depot, drawn in one colour per vehicle
+  routes?: number[][];
   highlightEdges?: Array<{ from: number; to: number }>;
   highlightEdge?: { from: number; to: number };
+  removedEdges?: Array<{ from: number; to: number }>;
+  addedEdges?: Array<{ from: number; to: number }>;
+  weightedEdges?: Array<{ from: number; to: number; weight: number }>;
+  // Edges of a triangle-inequality violation, labelled with their costs
+  violationEdges?: Array<{ from: number; to: number; label: string }>;
+  // "Visit before" rules and pickup → delivery pairs, drawn as dashed arrows
+  precedences?: PrecedenceConstraint[];
   currentNode?: number;
   visitedNodes?: number[];
+  startNode?: number;
+  // Fixed last city of an open path
+  endNode?: number;
+  onNodeSelect?: (node: number) => void;
+  // Open paths are drawn without the edge back to path[0]
+  closed?: boolean;
+  // Asymmetric instances: edges are matched by direction and both directions are drawn
+  directed?: boolean;
 }
 
 export function ReactFlowGraph({
   points,
   path = [],
+  routes = [],
   highlightEdges = [],
   highlightEdge,
+  removedEdges = [],
+  addedEdges = [],
+  weightedEdges = [],
+  violationEdges = [],
+  precedences = [],
   currentNode,
-  visitedNodes = []
+  visitedNodes = [],
+  startNode = 0,
+  endNode,
+  onNodeSelect,
+  closed = true,
+  directed = false
 }: ReactFlowGraphProps) {
-  const initialNodes: Node[] = useMemo(() => 
-    points.map((point) => ({
+  const initialNodes: Node[] = useMemo(() => {
+    const routeOf = new Map<number, number>();
+    routes.forEach((route, r) => route.slice(1).forEach((node) => routeOf.set(node, r)));
+
+    return points.map((point) => ({
       id: String(point.id),
       type: 'default',
       position: { x: point.x, y: point.y },
@@ -38,8 +82,10 @@ export function ReactFlowGraph({
         label: String(point.id),
       },
       style: {
-        background: point.id === 0 ? '#ef4444' : 
+        background: point.id === startNode ? '#ef4444' : 
+                   point.id === endNode ? '#991b1b' :
                    currentNode === point.id ? '#10b981' :
+                   routeOf.has(point.id) ? routeColor(routeOf.get(point.id)!) :
                    visitedNodes.includes(point.id) ? '#3b82f6' : '#6b7280',
         color: 'white',
         border: currentNode === point.id ? '3px solid #059669' : '2px solid white',
@@ -50,46 +96,63 @@ export function ReactFlowGraph({
         alignItems: 'center',
         justifyContent: 'center',
         fontSize: '14px',
+        cursor: onNodeSelect ? 'pointer' : undefined,
       },
       draggable: false,
-    })), 
-    [points, currentNode, visitedNodes]
-  );
+    }));
+  }, [points, routes, currentNode, visitedNodes, startNode, endNode, onNodeSelect]);
 
   const initialEdges: Edge[] = useMemo(() => {
     const edges: Edge[] = [];
+    const matches = (e: { from: number; to: number }, i: number, j: number) =>
+      (e.from === i && e.to === j) || (!directed && e.from === j && e.to === i);
+    const pathEdges = (closed ? path : path.slice(0, -1)).map((from, idx) => ({ from, to: path[(idx + 1) % path.length] }));
+    const routeEdges = routes.flatMap((route, r) =>
+      route.map((from, idx) => ({ from, to: route[(idx + 1) % route.length], vehicle: r }))
+    );
 
-    // Draw all possible edges in light gray
+    // Draw all possible edges in light gray; directed graphs get one arrow per direction
     for (let i = 0; i < points.length; i++) {
-      for (let j = i + 1; j < points.length; j++) {
-        const isInPath = path.length > 0 && (
-          (path.includes(i) && path.includes(j) && 
-           Math.abs(path.indexOf(i) - path.indexOf(j)) === 1) ||
-          (path[0] === i && path[path.length - 1] === j) ||
-          (path[0] === j && path[path.length - 1] === i)
-        );
-
-        const isHighlighted = highlightEdges.some(
-          e => (e.from === i && e.to === j) || (e.from === j && e.to === i)
-        );
-
-        const isCurrentHighlight = highlightEdge && (
-          (highlightEdge.from === i && highlightEdge.to === j) ||
-          (highlightEdge.from === j && highlightEdge.to === i)
-        );
-
-        if (!isInPath && !isHighlighted && !isCurrentHighlight) {
+      for (let j = directed ? 0 : i + 1; j < points.length; j++) {
+        if (i === j) continue;
+
+        const isInPath = (path.length > 1 && pathEdges.some(e => matches(e, i, j))) ||
+          routeEdges.some(e => matches(e, i, j));
+        const isHighlighted = highlightEdges.some(e => matches(e, i, j));
+        const isCurrentHighlight = highlightEdge && matches(highlightEdge, i, j);
+        const isRemoved = removedEdges.some(e => matches(e, i, j));
+        const isWeighted = weightedEdges.some(e => matches(e, i, j));
+
+        if (!isInPath && !isHighlighted && !isCurrentHighlight && !isRemoved && !isWeighted) {
           edges.push({
             id: `e${i}-${j}`,
             source: String(i),
             target: String(j),
-            style: { stroke: '#e5e7eb', strokeWidth: 1 },
+            style: { stroke: directed ? (i < j ? '#d1d5db' : '#e9d5ff') : '#e5e7eb', strokeWidth: 1 },
             animated: false,
+            markerEnd: directed
+              ? { type: MarkerType.Arrow, color: i < j ? '#d1d5db' : '#e9d5ff' }
+              : undefined,
           });
         }
       }
     }
 
+    // Draw weighted edges (e.g. pheromone trails), width and opacity scale with weight in [0, 1]
+    weightedEdges.forEach((edge, idx) => {
+      edges.push({
+        id: `weighted-${idx}`,
+        source: String(edge.from),
+        target: String(edge.to),
+        style: {
+          stroke: '#f97316',
+          strokeWidth: 1 + edge.weight * 7,
+          strokeOpacity: 0.1 + edge.weight * 0.8,
+        },
+        animated: false,
+      });
+    });
+
     // Draw highlight edges (for algorithm exploration)
     highlightEdges.forEach((edge, idx) => {
       edges.push({
@@ -118,10 +181,10 @@ export function ReactFlowGraph({
 
     // Draw the solution path with arrows
     if (path.length > 0) {
-      for (let i = 0; i < path.length; i++) {
+      for (let i = 0; i < (closed ? path.length : path.length - 1); i++) {
         const from = path[i];
         const to = i < path.length - 1 ? path[i + 1] : path[0];
-        
+
         edges.push({
           id: `path-${i}`,
           source: String(from),
@@ -138,8 +201,76 @@ export function ReactFlowGraph({
       }
     }
 
+    // Draw vehicle routes, one colour per vehicle
+    routeEdges.forEach((edge, idx) => {
+      if (edge.from === edge.to) return;
+      const color = routeColor(edge.vehicle);
+      edges.push({
+        id: `route-${idx}`,
+        source: String(edge.from),
+        target: String(edge.to),
+        style: { stroke: color, strokeWidth: 3 },
+        animated: false,
+        markerEnd: {
+          type: MarkerType.ArrowClosed,
+          color,
+        },
+      });
+    });
+
+    // Draw edges removed by a local search move (dashed red)
+    removedEdges.forEach((edge, idx) => {
+      edges.push({
+        id: `removed-${idx}`,
+        source: String(edge.from),
+        target: String(edge.to),
+        style: { stroke: '#ef4444', strokeWidth: 3, strokeDasharray: '6 4' },
+        animated: false,
+      });
+    });
+
+    // Draw edges added by a local search move on top of the path
+    addedEdges.forEach((edge, idx) => {
+      edges.push({
+        id: `added-${idx}`,
+        source: String(edge.from),
+        target: String(edge.to),
+        style: { stroke: '#10b981', strokeWidth: 5 },
+        animated: true,
+      });
+    });
+
+    // Draw precedence constraints as dashed arrows from the earlier city to the later one
+    precedences.forEach((constraint, idx) => {
+      const color = precedenceColor(constraint.kind);
+      edges.push({
+        id: `precedence-${idx}`,
+        source: String(constraint.before),
+        target: String(constraint.after),
+        style: { stroke: color, strokeWidth: 2, strokeDasharray: '8 4' },
+        animated: false,
+        markerEnd: { type: MarkerType.ArrowClosed, color },
+        label: constraint.kind === 'pickup' ? 'P → D' : undefined,
+        labelStyle: { fill: color, fontWeight: 600 },
+      });
+    });
+
+    // Draw a triangle that breaks the triangle inequality on top of everything (dotted purple)
+    violationEdges.forEach((edge, idx) => {
+      edges.push({
+        id: `violation-${idx}`,
+        source: String(edge.from),
+        target: String(edge.to),
+        style: { stroke: '#9333ea', strokeWidth: 3, strokeDasharray: '2 4' },
+        animated: false,
+        markerEnd: directed ? { type: MarkerType.ArrowClosed, color: '#9333ea' } : undefined,
+        label: edge.label,
+        labelStyle: { fill: '#9333ea', fontWeight: 600 },
+      });
+    });
+
     return edges;
-  }, [points, path, highlightEdges, highlightEdge]);
+  }, [points, path, routes, highlightEdges, highlightEdge, removedEdges, addedEdges, weightedEdges, violationEdges, precedences, closed, directed]);
 
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
@@ -159,6 +290,7 @@ export function ReactFlowGraph({
         edges={edges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
+        onNodeClick={(_, node) => onNodeSelect?.(Number(node.id))}
         fitView
         attributionPosition="bottom-left"
         minZoom={0.5}
@@ -169,7 +301,8 @@ export function ReactFlowGraph({
         <Controls />
         <MiniMap 
           nodeColor={(node) => {
-            if (node.id === '0') return '#ef4444';
+            if (Number(node.id) === startNode) return '#ef4444';
+            if (Number(node.id) === endNode) return '#991b1b';
             if (currentNode === Number(node.id)) return '#10b981';
             if (visitedNodes.includes(Number(node.id))) return '#3b82f6';
             return '#6b7280';
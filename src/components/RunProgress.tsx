@@ -0,0 +1,62 @@
+export type JobState = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface JobStatus {
+  state: JobState;
+  fraction: number;
+  message?: string;
+}
+
+interface RunProgressProps {
+  algorithms: Array<{ id: string; tabLabel: string; color: string }>;
+  statuses: Partial<Record<string, JobStatus>>;
+}
+
+const STATE_LABELS: Record<JobState, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export function RunProgress({ algorithms, statuses }: RunProgressProps) {
+  const jobs = algorithms.filter((algorithm) => statuses[algorithm.id]);
+  const finished = jobs.filter((algorithm) => statuses[algorithm.id]!.state === 'done').length;
+
+  return (
+    <div className="space-y-2 text-sm">
+      <p className="text-gray-600">
+        {finished} of {jobs.length} solvers finished
+      </p>
+      <div className="space-y-2" style={{ maxHeight: 240, overflowY: 'auto' }}>
+        {jobs.map((algorithm) => {
+          const status = statuses[algorithm.id]!;
+          const percent = status.state === 'done' ? 100 : Math.round(status.fraction * 100);
+
+          return (
+            <div key={algorithm.id} title={status.message}>
+              <div className="flex justify-between text-xs">
+                <span style={{ color: algorithm.color }}>{algorithm.tabLabel}</span>
+                <span className={status.state === 'failed' ? 'text-orange-600' : 'text-gray-500'}>
+                  {status.state === 'running' && status.fraction > 0 ? `${percent}%` : STATE_LABELS[status.state]}
+                </span>
+              </div>
+              <div className="w-full rounded-full overflow-hidden" style={{ height: 4, backgroundColor: '#e5e7eb' }}>
+                <div
+                  className="rounded-full"
+                  style={{
+                    height: 4,
+                    width: `${percent}%`,
+                    backgroundColor: algorithm.color,
+                    opacity: status.state === 'running' ? 1 : 0.5,
+                    transition: 'width 0.2s',
+                  }}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { Point } from '../utils/graph-generator';
+import { Schedule } from '../utils/time-windows';
+
+interface ScheduleTimelineProps {
+  schedule: Schedule;
+  points: Point[];
+  color: string;
+}
+
+const LEGEND = [
+  { label: 'Time window', color: '#dcfce7' },
+  { label: 'Travel', color: '#d1d5db' },
+  { label: 'Waiting', color: '#fcd34d' },
+  { label: 'Late arrival', color: '#ef4444' },
+];
+
+// Gantt-style view of a schedule: one row per stop, all on a shared time axis
+export function ScheduleTimeline({ schedule, points, color }: ScheduleTimelineProps) {
+  const { stops } = schedule;
+  if (stops.length === 0) return null;
+
+  const horizon = Math.max(
+    ...stops.map((stop) => stop.departure),
+    ...stops.map((stop) => points[stop.node].timeWindow?.latest ?? 0)
+  ) || 1;
+  const percent = (time: number) => `${(Math.min(time, horizon) / horizon) * 100}%`;
+  const span = (from: number, to: number) => ({ left: percent(from), width: percent(Math.max(0, to - from)) });
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="flex items-center justify-between text-xs text-gray-600">
+        <span>Schedule (time 0 – {horizon.toFixed(0)})</span>
+        <span className="flex items-center gap-2">
+          {LEGEND.map((item) => (
+            <span key={item.label} className="flex items-center gap-1">
+              <span style={{ display: 'inline-block', width: 10, height: 10, backgroundColor: item.color }} />
+              {item.label}
+            </span>
+          ))}
+          <span className="flex items-center gap-1">
+            <span style={{ display: 'inline-block', width: 10, height: 10, backgroundColor: color }} />
+            Service
+          </span>
+        </span>
+      </div>
+
+      <div style={{ maxHeight: 280, overflowY: 'auto' }}>
+        {stops.map((stop, index) => {
+          const window = points[stop.node].timeWindow;
+          const isReturn = index > 0 && stop.node === stops[0].node;
+          const previousDeparture = index > 0 ? stops[index - 1].departure : stop.arrival;
+          const isLate = stop.lateness > 0;
+
+          return (
+            <div key={index} className="flex items-center gap-2 text-xs" style={{ height: 18 }}>
+              <span style={{ width: 72, color: isLate ? '#dc2626' : undefined }}>
+                {isReturn ? `Return ${stop.node}` : `City ${stop.node}`}
+              </span>
+              <div className="rounded-md" style={{ position: 'relative', flex: 1, height: 12, backgroundColor: '#f9fafb' }}>
+                {window && (
+                  <div style={{ position: 'absolute', top: 0, height: 12, backgroundColor: '#dcfce7', ...span(window.earliest, window.latest) }} />
+                )}
+                <div style={{ position: 'absolute', top: 5, height: 2, backgroundColor: '#d1d5db', ...span(previousDeparture, stop.arrival) }} />
+                <div style={{ position: 'absolute', top: 2, height: 8, backgroundColor: '#fcd34d', ...span(stop.arrival, stop.start) }} />
+                <div style={{ position: 'absolute', top: 2, height: 8, backgroundColor: color, ...span(stop.start, stop.departure) }} />
+                <div
+                  title={`Arrive ${stop.arrival.toFixed(1)}`}
+                  style={{
+                    position: 'absolute',
+                    top: 0,
+                    height: 12,
+                    width: 2,
+                    left: percent(stop.arrival),
+                    backgroundColor: isLate ? '#ef4444' : '#111827',
+                  }}
+                />
+              </div>
+              <span style={{ width: 120, textAlign: 'right', color: isLate ? '#dc2626' : undefined }}>
+                {isLate ? `${stop.lateness.toFixed(1)} late` : stop.wait > 0 ? `wait ${stop.wait.toFixed(1)}` : `at ${stop.arrival.toFixed(1)}`}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
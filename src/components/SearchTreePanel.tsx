@@ -0,0 +1,101 @@
+import { useState, useEffect, useRef } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { AlgorithmStep, SearchTreeNode, SearchTreeStatus } from '../utils/tsp-algorithms';
+
+interface SearchTreePanelProps {
+  tree: SearchTreeNode[];
+  steps: AlgorithmStep[];
+  currentStep: number;
+  onStepChange: (step: number) => void;
+  color: string;
+}
+
+const STATUS_COLORS: Record<SearchTreeStatus, string> = {
+  open: '#6b7280',
+  branched: '#3b82f6',
+  pruned: '#ef4444',
+  infeasible: '#9ca3af',
+  solution: '#16a34a',
+};
+
+export function SearchTreePanel({
+  tree,
+  steps,
+  currentStep,
+  onStepChange,
+  color
+}: SearchTreePanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  const currentRowRef = useRef<HTMLDivElement>(null);
+  const currentNodeId = steps[currentStep]?.treeNodeId;
+
+  // Nodes appear as the search creates them; their status is only known once resolved
+  const visibleNodes = tree.filter((node) => node.createdStep <= currentStep);
+  const statusAt = (node: SearchTreeNode): SearchTreeStatus =>
+    node.resolvedStep !== undefined && node.resolvedStep <= currentStep ? node.status : 'open';
+
+  useEffect(() => {
+    currentRowRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentNodeId, isOpen]);
+
+  // Jump to the first step that shows the given node
+  const handleSelect = (node: SearchTreeNode) => {
+    const step = steps.findIndex((s) => s.treeNodeId === node.id);
+    if (step !== -1) onStepChange(step);
+  };
+
+  return (
+    <Card className="p-6">
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center gap-2">
+            Search Tree
+            <Badge style={{ backgroundColor: color, color: 'white' }}>
+              {visibleNodes.length} of {tree.length} nodes
+            </Badge>
+          </h3>
+          <CollapsibleTrigger asChild>
+            <Button variant="outline" size="sm">
+              {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            </Button>
+          </CollapsibleTrigger>
+        </div>
+
+        <CollapsibleContent>
+          <div className="mt-4 border rounded-lg" style={{ maxHeight: 320, overflowY: 'auto' }}>
+            {visibleNodes.map((node) => {
+              const status = statusAt(node);
+              const isCurrent = node.id === currentNodeId;
+
+              return (
+                <div
+                  key={node.id}
+                  ref={isCurrent ? currentRowRef : undefined}
+                  onClick={() => handleSelect(node)}
+                  className={`flex items-center justify-between gap-2 px-3 py-1 text-sm ${isCurrent ? 'bg-blue-50' : ''}`}
+                  style={{ cursor: 'pointer', paddingLeft: 12 + Math.min(node.depth, 30) * 14 }}
+                >
+                  <span>
+                    {node.decision}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <span className="text-gray-600">
+                      LB {node.lowerBound === Infinity ? '∞' : node.lowerBound.toFixed(2)}
+                    </span>
+                    <Badge style={{ backgroundColor: STATUS_COLORS[status], color: 'white' }}>
+                      {status}
+                    </Badge>
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
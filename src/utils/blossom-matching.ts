@@ -0,0 +1,522 @@
+// Edmonds' blossom algorithm for maximum-weight matching in general graphs, O(n³).
+// Port of Joris van Rantwijk's reference implementation (mwmatching.py), restricted to
+// integer weights so that all dual variables and slacks stay exact.
+
+export interface PerfectMatching {
+  pairs: Array<{ from: number; to: number }>;
+  weight: number;
+  // Number of odd cycles contracted into blossoms while searching for augmenting paths
+  blossoms: number;
+}
+
+// Distances are scaled to integers with this precision before matching
+const WEIGHT_SCALE = 1000;
+
+// Minimum-weight perfect matching on an even set of vertices of a complete graph
+export function minimumWeightPerfectMatching(vertices: number[], distanceMatrix: number[][]): PerfectMatching {
+  const k = vertices.length;
+  const scaled = (a: number, b: number) => Math.round(distanceMatrix[vertices[a]][vertices[b]] * WEIGHT_SCALE);
+
+  let maxScaled = 0;
+  for (let a = 0; a < k; a++) {
+    for (let b = a + 1; b < k; b++) {
+      maxScaled = Math.max(maxScaled, scaled(a, b));
+    }
+  }
+
+  // All perfect matchings have k/2 edges, so maximising Σ(W − w) minimises Σw
+  const edges: Array<[number, number, number]> = [];
+  for (let a = 0; a < k; a++) {
+    for (let b = a + 1; b < k; b++) {
+      edges.push([a, b, maxScaled + 1 - scaled(a, b)]);
+    }
+  }
+
+  const { mate, blossoms } = maxWeightMatching(k, edges, true);
+  const pairs: Array<{ from: number; to: number }> = [];
+  let weight = 0;
+  for (let a = 0; a < k; a++) {
+    if (mate[a] > a) {
+      pairs.push({ from: vertices[a], to: vertices[mate[a]] });
+      weight += distanceMatrix[vertices[a]][vertices[mate[a]]];
+    }
+  }
+
+  return { pairs, weight, blossoms };
+}
+
+function maxWeightMatching(
+  nvertex: number,
+  edges: Array<[number, number, number]>,
+  maxCardinality: boolean
+): { mate: number[]; blossoms: number } {
+  const nedge = edges.length;
+  const mate: number[] = new Array(nvertex).fill(-1);
+  if (nedge === 0) return { mate, blossoms: 0 };
+
+  const maxWeight = Math.max(0, ...edges.map(e => e[2]));
+
+  // endpoint[p] is the vertex at end p of edge p >> 1
+  const endpoint: number[] = [];
+  for (let p = 0; p < 2 * nedge; p++) {
+    endpoint.push(edges[p >> 1][p % 2]);
+  }
+  const neighbend: number[][] = Array.from({ length: nvertex }, () => []);
+  edges.forEach(([i, j], k) => {
+    neighbend[i].push(2 * k + 1);
+    neighbend[j].push(2 * k);
+  });
+
+  // Labels: 0 = free, 1 = S (outer), 2 = T (inner); 4/5 mark breadcrumbs in scanBlossom
+  const label: number[] = new Array(2 * nvertex).fill(0);
+  const labelend: number[] = new Array(2 * nvertex).fill(-1);
+  const inblossom: number[] = Array.from({ length: nvertex }, (_, i) => i);
+  const blossomparent: number[] = new Array(2 * nvertex).fill(-1);
+  const blossomchilds: Array<number[] | null> = new Array(2 * nvertex).fill(null);
+  const blossombase: number[] = [
+    ...Array.from({ length: nvertex }, (_, i) => i),
+    ...new Array(nvertex).fill(-1)
+  ];
+  const blossomendps: Array<number[] | null> = new Array(2 * nvertex).fill(null);
+  const bestedge: number[] = new Array(2 * nvertex).fill(-1);
+  const blossombestedges: Array<number[] | null> = new Array(2 * nvertex).fill(null);
+  const unusedblossoms: number[] = Array.from({ length: nvertex }, (_, i) => nvertex + i);
+  const dualvar: number[] = [...new Array(nvertex).fill(maxWeight), ...new Array(nvertex).fill(0)];
+  let allowedge: boolean[] = new Array(nedge).fill(false);
+  let queue: number[] = [];
+  let blossomCount = 0;
+
+  // Python-style indexing into a blossom's child list
+  const wrap = (list: number[], j: number) => list[j < 0 ? j + list.length : j];
+
+  const slack = (k: number) => {
+    const [i, j, wt] = edges[k];
+    return dualvar[i] + dualvar[j] - 2 * wt;
+  };
+
+  const blossomLeaves = (b: number): number[] => {
+    if (b < nvertex) return [b];
+    const leaves: number[] = [];
+    for (const t of blossomchilds[b]!) {
+      if (t < nvertex) leaves.push(t);
+      else leaves.push(...blossomLeaves(t));
+    }
+    return leaves;
+  };
+
+  const assignLabel = (w: number, t: number, p: number): void => {
+    const b = inblossom[w];
+    label[w] = label[b] = t;
+    labelend[w] = labelend[b] = p;
+    bestedge[w] = bestedge[b] = -1;
+    if (t === 1) {
+      queue.push(...blossomLeaves(b));
+    } else if (t === 2) {
+      const base = blossombase[b];
+      assignLabel(endpoint[mate[base]], 1, mate[base] ^ 1);
+    }
+  };
+
+  // Trace back from v and w to find a new blossom base, or -1 for an augmenting path
+  const scanBlossom = (v: number, w: number): number => {
+    const path: number[] = [];
+    let base = -1;
+    while (v !== -1 || w !== -1) {
+      let b = inblossom[v];
+      if (label[b] & 4) {
+        base = blossombase[b];
+        break;
+      }
+      path.push(b);
+      label[b] = 5;
+      if (labelend[b] === -1) {
+        v = -1;
+      } else {
+        v = endpoint[labelend[b]];
+        b = inblossom[v];
+        v = endpoint[labelend[b]];
+      }
+      if (w !== -1) {
+        [v, w] = [w, v];
+      }
+    }
+    for (const b of path) {
+      label[b] = 1;
+    }
+    return base;
+  };
+
+  const addBlossom = (base: number, k: number): void => {
+    let [v, w] = edges[k];
+    const bb = inblossom[base];
+    let bv = inblossom[v];
+    let bw = inblossom[w];
+    const b = unusedblossoms.pop()!;
+    blossomCount++;
+    blossombase[b] = base;
+    blossomparent[b] = -1;
+    blossomparent[bb] = b;
+    const path: number[] = [];
+    const endps: number[] = [];
+    while (bv !== bb) {
+      blossomparent[bv] = b;
+      path.push(bv);
+      endps.push(labelend[bv]);
+      v = endpoint[labelend[bv]];
+      bv = inblossom[v];
+    }
+    path.push(bb);
+    path.reverse();
+    endps.reverse();
+    endps.push(2 * k);
+    while (bw !== bb) {
+      blossomparent[bw] = b;
+      path.push(bw);
+      endps.push(labelend[bw] ^ 1);
+      w = endpoint[labelend[bw]];
+      bw = inblossom[w];
+    }
+    blossomchilds[b] = path;
+    blossomendps[b] = endps;
+    label[b] = 1;
+    labelend[b] = labelend[bb];
+    dualvar[b] = 0;
+    for (const leaf of blossomLeaves(b)) {
+      if (label[inblossom[leaf]] === 2) {
+        queue.push(leaf);
+      }
+      inblossom[leaf] = b;
+    }
+
+    // Compute the least-slack edges from the new blossom to each neighbouring S-blossom
+    const bestedgeto: number[] = new Array(2 * nvertex).fill(-1);
+    for (const child of path) {
+      const nblists = blossombestedges[child] === null
+        ? blossomLeaves(child).map(leaf => neighbend[leaf].map(p => p >> 1))
+        : [blossombestedges[child]!];
+      for (const nblist of nblists) {
+        for (const ek of nblist) {
+          let [i, j] = edges[ek];
+          if (inblossom[j] === b) {
+            [i, j] = [j, i];
+          }
+          const bj = inblossom[j];
+          if (bj !== b && label[bj] === 1 && (bestedgeto[bj] === -1 || slack(ek) < slack(bestedgeto[bj]))) {
+            bestedgeto[bj] = ek;
+          }
+        }
+      }
+      blossombestedges[child] = null;
+      bestedge[child] = -1;
+    }
+    blossombestedges[b] = bestedgeto.filter(ek => ek !== -1);
+    bestedge[b] = -1;
+    for (const ek of blossombestedges[b]!) {
+      if (bestedge[b] === -1 || slack(ek) < slack(bestedge[b])) {
+        bestedge[b] = ek;
+      }
+    }
+  };
+
+  const expandBlossom = (b: number, endstage: boolean): void => {
+    const childs = blossomchilds[b]!;
+    const endps = blossomendps[b]!;
+    for (const s of childs) {
+      blossomparent[s] = -1;
+      if (s < nvertex) {
+        inblossom[s] = s;
+      } else if (endstage && dualvar[s] === 0) {
+        expandBlossom(s, endstage);
+      } else {
+        for (const leaf of blossomLeaves(s)) {
+          inblossom[leaf] = s;
+        }
+      }
+    }
+
+    // A T-blossom expanded mid-stage must relabel its children to keep the alternating tree
+    if (!endstage && label[b] === 2) {
+      const entrychild = inblossom[endpoint[labelend[b] ^ 1]];
+      let j = childs.indexOf(entrychild);
+      let jstep: number;
+      let endptrick: number;
+      if (j & 1) {
+        j -= childs.length;
+        jstep = 1;
+        endptrick = 0;
+      } else {
+        jstep = -1;
+        endptrick = 1;
+      }
+      let p = labelend[b];
+      while (j !== 0) {
+        label[endpoint[p ^ 1]] = 0;
+        label[endpoint[wrap(endps, j - endptrick) ^ endptrick ^ 1]] = 0;
+        assignLabel(endpoint[p ^ 1], 2, p);
+        allowedge[wrap(endps, j - endptrick) >> 1] = true;
+        j += jstep;
+        p = wrap(endps, j - endptrick) ^ endptrick;
+        allowedge[p >> 1] = true;
+        j += jstep;
+      }
+      const bv = wrap(childs, j);
+      label[endpoint[p ^ 1]] = label[bv] = 2;
+      labelend[endpoint[p ^ 1]] = labelend[bv] = p;
+      bestedge[bv] = -1;
+      j += jstep;
+      while (wrap(childs, j) !== entrychild) {
+        const child = wrap(childs, j);
+        if (label[child] === 1) {
+          j += jstep;
+          continue;
+        }
+        const leaves = blossomLeaves(child);
+        const labelled = leaves.find(leaf => label[leaf] !== 0) ?? leaves[leaves.length - 1];
+        if (label[labelled] !== 0) {
+          label[labelled] = 0;
+          label[endpoint[mate[blossombase[child]]]] = 0;
+          assignLabel(labelled, 2, labelend[labelled]);
+        }
+        j += jstep;
+      }
+    }
+
+    label[b] = labelend[b] = -1;
+    blossomchilds[b] = blossomendps[b] = null;
+    blossombase[b] = -1;
+    blossombestedges[b] = null;
+    bestedge[b] = -1;
+    unusedblossoms.push(b);
+  };
+
+  // Swap matched/unmatched edges along the even path from vertex v to the blossom base
+  const augmentBlossom = (b: number, v: number): void => {
+    let t = v;
+    while (blossomparent[t] !== b) {
+      t = blossomparent[t];
+    }
+    if (t >= nvertex) {
+      augmentBlossom(t, v);
+    }
+    const childs = blossomchilds[b]!;
+    const endps = blossomendps[b]!;
+    const i = childs.indexOf(t);
+    let j = i;
+    let jstep: number;
+    let endptrick: number;
+    if (i & 1) {
+      j -= childs.length;
+      jstep = 1;
+      endptrick = 0;
+    } else {
+      jstep = -1;
+      endptrick = 1;
+    }
+    while (j !== 0) {
+      j += jstep;
+      t = wrap(childs, j);
+      const p = wrap(endps, j - endptrick) ^ endptrick;
+      if (t >= nvertex) {
+        augmentBlossom(t, endpoint[p]);
+      }
+      j += jstep;
+      t = wrap(childs, j);
+      if (t >= nvertex) {
+        augmentBlossom(t, endpoint[p ^ 1]);
+      }
+      mate[endpoint[p]] = p ^ 1;
+      mate[endpoint[p ^ 1]] = p;
+    }
+    blossomchilds[b] = [...childs.slice(i), ...childs.slice(0, i)];
+    blossomendps[b] = [...endps.slice(i), ...endps.slice(0, i)];
+    blossombase[b] = blossombase[blossomchilds[b]![0]];
+  };
+
+  const augmentMatching = (k: number): void => {
+    const [v, w] = edges[k];
+    for (let [s, p] of [[v, 2 * k + 1], [w, 2 * k]]) {
+      for (;;) {
+        const bs = inblossom[s];
+        if (bs >= nvertex) {
+          augmentBlossom(bs, s);
+        }
+        mate[s] = p;
+        if (labelend[bs] === -1) break;
+        const t = endpoint[labelend[bs]];
+        const bt = inblossom[t];
+        s = endpoint[labelend[bt]];
+        const j = endpoint[labelend[bt] ^ 1];
+        if (bt >= nvertex) {
+          augmentBlossom(bt, j);
+        }
+        mate[j] = labelend[bt];
+        p = labelend[bt] ^ 1;
+      }
+    }
+  };
+
+  // Each stage finds one augmenting path, so at most nvertex stages are needed
+  for (let stage = 0; stage < nvertex; stage++) {
+    label.fill(0);
+    bestedge.fill(-1);
+    for (let b = nvertex; b < 2 * nvertex; b++) {
+      blossombestedges[b] = null;
+    }
+    allowedge = new Array(nedge).fill(false);
+    queue = [];
+
+    for (let v = 0; v < nvertex; v++) {
+      if (mate[v] === -1 && label[inblossom[v]] === 0) {
+        assignLabel(v, 1, -1);
+      }
+    }
+
+    let augmented = false;
+    for (;;) {
+      while (queue.length > 0 && !augmented) {
+        const v = queue.pop()!;
+        for (const p of neighbend[v]) {
+          const k = p >> 1;
+          const w = endpoint[p];
+          if (inblossom[v] === inblossom[w]) continue;
+
+          let kslack = 0;
+          if (!allowedge[k]) {
+            kslack = slack(k);
+            if (kslack <= 0) {
+              allowedge[k] = true;
+            }
+          }
+
+          if (allowedge[k]) {
+            if (label[inblossom[w]] === 0) {
+              assignLabel(w, 2, p ^ 1);
+            } else if (label[inblossom[w]] === 1) {
+              const base = scanBlossom(v, w);
+              if (base >= 0) {
+                addBlossom(base, k);
+              } else {
+                augmentMatching(k);
+                augmented = true;
+                break;
+              }
+            } else if (label[w] === 0) {
+              label[w] = 2;
+              labelend[w] = p ^ 1;
+            }
+          } else if (label[inblossom[w]] === 1) {
+            const b = inblossom[v];
+            if (bestedge[b] === -1 || kslack < slack(bestedge[b])) {
+              bestedge[b] = k;
+            }
+          } else if (label[w] === 0) {
+            if (bestedge[w] === -1 || kslack < slack(bestedge[w])) {
+              bestedge[w] = k;
+            }
+          }
+        }
+      }
+
+      if (augmented) break;
+
+      // No augmenting path with tight edges: adjust the duals by the smallest delta
+      let deltatype = -1;
+      let delta = 0;
+      let deltaedge = -1;
+      let deltablossom = -1;
+
+      if (!maxCardinality) {
+        deltatype = 1;
+        delta = Math.min(...dualvar.slice(0, nvertex));
+      }
+
+      for (let v = 0; v < nvertex; v++) {
+        if (label[inblossom[v]] === 0 && bestedge[v] !== -1) {
+          const d = slack(bestedge[v]);
+          if (deltatype === -1 || d < delta) {
+            delta = d;
+            deltatype = 2;
+            deltaedge = bestedge[v];
+          }
+        }
+      }
+
+      for (let b = 0; b < 2 * nvertex; b++) {
+        if (blossomparent[b] === -1 && label[b] === 1 && bestedge[b] !== -1) {
+          const d = slack(bestedge[b]) / 2;
+          if (deltatype === -1 || d < delta) {
+            delta = d;
+            deltatype = 3;
+            deltaedge = bestedge[b];
+          }
+        }
+      }
+
+      for (let b = nvertex; b < 2 * nvertex; b++) {
+        if (blossombase[b] >= 0 && blossomparent[b] === -1 && label[b] === 2 &&
+            (deltatype === -1 || dualvar[b] < delta)) {
+          delta = dualvar[b];
+          deltatype = 4;
+          deltablossom = b;
+        }
+      }
+
+      if (deltatype === -1) {
+        // No further improvement possible; max-cardinality optimum reached
+        deltatype = 1;
+        delta = Math.max(0, Math.min(...dualvar.slice(0, nvertex)));
+      }
+
+      for (let v = 0; v < nvertex; v++) {
+        if (label[inblossom[v]] === 1) {
+          dualvar[v] -= delta;
+        } else if (label[inblossom[v]] === 2) {
+          dualvar[v] += delta;
+        }
+      }
+      for (let b = nvertex; b < 2 * nvertex; b++) {
+        if (blossombase[b] >= 0 && blossomparent[b] === -1) {
+          if (label[b] === 1) {
+            dualvar[b] += delta;
+          } else if (label[b] === 2) {
+            dualvar[b] -= delta;
+          }
+        }
+      }
+
+      if (deltatype === 1) {
+        break;
+      } else if (deltatype === 2) {
+        allowedge[deltaedge] = true;
+        let [i, j] = edges[deltaedge];
+        if (label[inblossom[i]] === 0) {
+          [i, j] = [j, i];
+        }
+        queue.push(i);
+      } else if (deltatype === 3) {
+        allowedge[deltaedge] = true;
+        const [i] = edges[deltaedge];
+        queue.push(i);
+      } else if (deltatype === 4) {
+        expandBlossom(deltablossom, false);
+      }
+    }
+
+    if (!augmented) break;
+
+    // End of stage: expand S-blossoms whose dual dropped to zero
+    for (let b = nvertex; b < 2 * nvertex; b++) {
+      if (blossomparent[b] === -1 && blossombase[b] >= 0 && label[b] === 1 && dualvar[b] === 0) {
+        expandBlossom(b, true);
+      }
+    }
+  }
+
+  for (let v = 0; v < nvertex; v++) {
+    if (mate[v] >= 0) {
+      mate[v] = endpoint[mate[v]];
+    }
+  }
+
+  return { mate, blossoms: blossomCount };
+}
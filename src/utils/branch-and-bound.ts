@@ -0,0 +1,323 @@
+import { calculatePathCost } from './graph-generator';
+import {
+  AlgorithmStep,
+  SearchTreeNode,
+  SearchTreeStatus,
+  ProgressCallback,
+  TSPResult,
+  greedyTSP,
+  rotateToStart,
+  twoOptTSP
+} from './tsp-algorithms';
+
+// Stop searching after this many nodes and report the incumbent without an optimality proof
+const MAX_SEARCH_NODES = 200000;
+// Only the first nodes of the search are recorded as steps and shown in the tree panel
+const MAX_RECORDED_NODES = 400;
+
+interface SubProblem {
+  matrix: number[][];
+  rows: boolean[];
+  cols: boolean[];
+  next: number[];
+  prev: number[];
+  edgeCount: number;
+  bound: number;
+  treeId: number;
+}
+
+// Branch and Bound - Little's reduced-matrix method with include/exclude branching
+export function branchAndBoundTSP(
+  distanceMatrix: number[][],
+  startNode = 0,
+  onProgress?: ProgressCallback
+): TSPResult {
+  const startTime = performance.now();
+  const n = distanceMatrix.length;
+  const steps: AlgorithmStep[] = [];
+  const searchTree: SearchTreeNode[] = [];
+
+  // A good incumbent from nearest neighbour + 2-opt lets us prune from the start
+  const seed = twoOptTSP(distanceMatrix, greedyTSP(distanceMatrix, startNode).path, startNode);
+  let bestPath = seed.path;
+  let bestCost = seed.cost;
+  let explored = 0;
+
+  steps.push({
+    description: "Start with a 2-opt improved nearest neighbour tour as incumbent",
+    visitedNodes: [...bestPath],
+    currentPath: [...bestPath],
+    cost: bestCost,
+    additionalInfo: `Incumbent cost ${bestCost.toFixed(2)}. Subproblems with a lower bound at least this high are pruned`
+  });
+
+  const recording = () => searchTree.length < MAX_RECORDED_NODES;
+
+  const addTreeNode = (parentId: number | null, depth: number, decision: string, lowerBound: number) => {
+    if (!recording()) return -1;
+    searchTree.push({
+      id: searchTree.length,
+      parentId,
+      depth,
+      decision,
+      lowerBound,
+      status: 'open',
+      createdStep: steps.length
+    });
+    return searchTree.length - 1;
+  };
+
+  const resolve = (treeId: number, status: SearchTreeStatus) => {
+    if (treeId === -1) return;
+    searchTree[treeId].status = status;
+    searchTree[treeId].resolvedStep = steps.length - 1;
+  };
+
+  const fixedEdges = (node: SubProblem) => {
+    const edges: Array<{ from: number; to: number }> = [];
+    node.next.forEach((to, from) => {
+      if (to !== -1) edges.push({ from, to });
+    });
+    return edges;
+  };
+
+  const recordStep = (node: SubProblem, step: Partial<AlgorithmStep> & { description: string }) => {
+    if (node.treeId === -1) return;
+    steps.push({
+      visitedNodes: [],
+      currentPath: [],
+      exploringEdges: fixedEdges(node),
+      cost: node.bound,
+      treeNodeId: node.treeId,
+      ...step
+    });
+  };
+
+  // Root: reduce every row and column of the matrix
+  const rootMatrix = distanceMatrix.map((row, i) => row.map((value, j) => (i === j ? Infinity : value)));
+  const rows = new Array(n).fill(true);
+  const cols = new Array(n).fill(true);
+  const rootBound = reduceMatrix(rootMatrix, rows, cols);
+  const root: SubProblem = {
+    matrix: rootMatrix,
+    rows,
+    cols,
+    next: new Array(n).fill(-1),
+    prev: new Array(n).fill(-1),
+    edgeCount: 0,
+    bound: rootBound,
+    treeId: addTreeNode(null, 0, 'root', rootBound)
+  };
+
+  const explore = (node: SubProblem, depth: number) => {
+    explored++;
+    if (explored > MAX_SEARCH_NODES) return;
+    // The search size is unknown in advance, so progress is measured against the node limit
+    if (explored % 1000 === 0) onProgress?.(explored / MAX_SEARCH_NODES);
+
+    if (node.bound >= bestCost - 1e-9) {
+      recordStep(node, {
+        description: `Prune: lower bound ${node.bound.toFixed(2)} ≥ incumbent ${bestCost.toFixed(2)}`,
+        additionalInfo: "This subproblem cannot contain a better tour"
+      });
+      resolve(node.treeId, node.bound === Infinity ? 'infeasible' : 'pruned');
+      return;
+    }
+
+    // All but one edge fixed: the closing edge is forced
+    if (node.edgeCount === n - 1) {
+      const tour = rotateToStart(chainFrom(node.next, node.prev), startNode);
+      const cost = calculatePathCost(tour, distanceMatrix);
+      const improves = cost < bestCost - 1e-9;
+      if (improves) {
+        bestCost = cost;
+        bestPath = tour;
+      }
+      recordStep(node, {
+        description: improves ? `New incumbent found with cost ${cost.toFixed(2)}` : `Complete tour with cost ${cost.toFixed(2)}`,
+        currentPath: tour,
+        visitedNodes: tour,
+        cost,
+        additionalInfo: improves ? "Every open subproblem must now beat this cost" : "Not better than the incumbent"
+      });
+      resolve(node.treeId, 'solution');
+      return;
+    }
+
+    const choice = chooseBranchEdge(node);
+    if (!choice) {
+      resolve(node.treeId, 'infeasible');
+      return;
+    }
+    const { from, to, penalty } = choice;
+
+    recordStep(node, {
+      description: `Branch on edge ${from} → ${to} (lower bound ${node.bound.toFixed(2)})`,
+      highlightEdge: { from, to },
+      additionalInfo: `Zero cell with the largest exclusion penalty ${penalty.toFixed(2)}. Incumbent: ${bestCost.toFixed(2)}`
+    });
+    resolve(node.treeId, 'branched');
+
+    const include = includeEdge(node, from, to, n);
+    include.treeId = addTreeNode(node.treeId, depth + 1, `include ${from} → ${to}`, include.bound);
+
+    const exclude = cloneSubProblem(node);
+    exclude.matrix[from][to] = Infinity;
+    exclude.bound = node.bound + reduceMatrix(exclude.matrix, exclude.rows, exclude.cols);
+    exclude.treeId = addTreeNode(node.treeId, depth + 1, `exclude ${from} → ${to}`, exclude.bound);
+
+    // Explore the more promising child first so a good incumbent is found early
+    const children = include.bound <= exclude.bound ? [include, exclude] : [exclude, include];
+    for (const child of children) {
+      if (child === exclude) {
+        recordStep(child, {
+          description: `Exclude ${from} → ${to}: lower bound ${child.bound.toFixed(2)}`,
+          removedEdges: [{ from, to }],
+          additionalInfo: `Forbidding the edge raises the bound by its penalty ${penalty.toFixed(2)}`
+        });
+      } else {
+        recordStep(child, {
+          description: `Include ${from} → ${to}: lower bound ${child.bound.toFixed(2)}`,
+          highlightEdge: { from, to },
+          additionalInfo: "Row and column removed, subtour-closing edge forbidden, matrix reduced again"
+        });
+      }
+      explore(child, depth + 1);
+    }
+  };
+
+  if (n >= 2) {
+    explore(root, 0);
+  }
+
+  const proven = explored <= MAX_SEARCH_NODES;
+  steps.push({
+    description: proven ? "Search complete: incumbent is optimal" : "Node limit reached: incumbent not proven optimal",
+    visitedNodes: [...bestPath],
+    currentPath: [...bestPath],
+    cost: bestCost,
+    additionalInfo: `Explored ${Math.min(explored, MAX_SEARCH_NODES)} subproblems` +
+      (searchTree.length >= MAX_RECORDED_NODES ? ` (first ${MAX_RECORDED_NODES} shown in the search tree)` : '') +
+      `. Best tour cost: ${bestCost.toFixed(2)}`
+  });
+
+  const executionTime = performance.now() - startTime;
+  return {
+    path: bestPath,
+    cost: bestCost,
+    executionTime,
+    steps,
+    provenOptimal: proven,
+    searchTree
+  };
+}
+
+// Subtracts each active row's and column's minimum; returns the total (Infinity if infeasible)
+function reduceMatrix(matrix: number[][], rows: boolean[], cols: boolean[]): number {
+  const n = matrix.length;
+  let total = 0;
+
+  for (let i = 0; i < n; i++) {
+    if (!rows[i]) continue;
+    let min = Infinity;
+    for (let j = 0; j < n; j++) {
+      if (cols[j]) min = Math.min(min, matrix[i][j]);
+    }
+    if (min === Infinity) return Infinity;
+    if (min > 0) {
+      for (let j = 0; j < n; j++) {
+        if (cols[j]) matrix[i][j] -= min;
+      }
+      total += min;
+    }
+  }
+
+  for (let j = 0; j < n; j++) {
+    if (!cols[j]) continue;
+    let min = Infinity;
+    for (let i = 0; i < n; i++) {
+      if (rows[i]) min = Math.min(min, matrix[i][j]);
+    }
+    if (min === Infinity) return Infinity;
+    if (min > 0) {
+      for (let i = 0; i < n; i++) {
+        if (rows[i]) matrix[i][j] -= min;
+      }
+      total += min;
+    }
+  }
+
+  return total;
+}
+
+// Picks the zero cell whose exclusion would raise the bound the most
+function chooseBranchEdge(node: SubProblem): { from: number; to: number; penalty: number } | null {
+  const { matrix, rows, cols } = node;
+  const n = matrix.length;
+  let best: { from: number; to: number; penalty: number } | null = null;
+
+  for (let i = 0; i < n; i++) {
+    if (!rows[i]) continue;
+    for (let j = 0; j < n; j++) {
+      if (!cols[j] || matrix[i][j] !== 0) continue;
+
+      let rowMin = Infinity;
+      let colMin = Infinity;
+      for (let k = 0; k < n; k++) {
+        if (k !== j && cols[k]) rowMin = Math.min(rowMin, matrix[i][k]);
+        if (k !== i && rows[k]) colMin = Math.min(colMin, matrix[k][j]);
+      }
+      const penalty = rowMin + colMin;
+      if (!best || penalty > best.penalty) {
+        best = { from: i, to: j, penalty };
+      }
+    }
+  }
+
+  return best;
+}
+
+function includeEdge(node: SubProblem, from: number, to: number, n: number): SubProblem {
+  const child = cloneSubProblem(node);
+  child.rows[from] = false;
+  child.cols[to] = false;
+  child.next[from] = to;
+  child.prev[to] = from;
+  child.edgeCount++;
+
+  // Forbid the edge that would close the chain through (from, to) into a subtour
+  let start = from;
+  while (child.prev[start] !== -1) start = child.prev[start];
+  let end = to;
+  while (child.next[end] !== -1) end = child.next[end];
+  if (child.edgeCount < n - 1) {
+    child.matrix[end][start] = Infinity;
+  }
+
+  child.bound = node.bound + reduceMatrix(child.matrix, child.rows, child.cols);
+  return child;
+}
+
+function cloneSubProblem(node: SubProblem): SubProblem {
+  return {
+    matrix: node.matrix.map(row => [...row]),
+    rows: [...node.rows],
+    cols: [...node.cols],
+    next: [...node.next],
+    prev: [...node.prev],
+    edgeCount: node.edgeCount,
+    bound: node.bound,
+    treeId: -1
+  };
+}
+
+// With n - 1 fixed edges forming one chain, walk it from its start
+function chainFrom(next: number[], prev: number[]): number[] {
+  let start = 0;
+  while (prev[start] !== -1) start = prev[start];
+  const tour = [start];
+  while (next[tour[tour.length - 1]] !== -1) {
+    tour.push(next[tour[tour.length - 1]]);
+  }
+  return tour;
+}
@@ -0,0 +1,386 @@
+import { calculatePathCost, isSymmetric } from './graph-generator';
+import { LinearConstraint, solveLinearProgram } from './simplex';
+import {
+  AlgorithmStep,
+  SearchTreeNode,
+  SearchTreeStatus,
+  ProgressCallback,
+  TSPResult,
+  greedyTSP,
+  rotateToStart,
+  twoOptTSP
+} from './tsp-algorithms';
+
+// Stop branching after this many subproblems and report the incumbent without a proof
+const MAX_BRANCH_NODES = 2000;
+// Only the first subproblems are recorded as steps and shown in the tree panel
+const MAX_RECORDED_NODES = 200;
+const INTEGRALITY_TOLERANCE = 1e-6;
+// A subtour constraint counts as violated when the cut around S falls this far below 2
+const CUT_TOLERANCE = 1e-6;
+
+// One LP column: an undirected edge on symmetric instances, an arc on asymmetric ones
+interface Variable {
+  from: number;
+  to: number;
+}
+
+interface SubProblem {
+  // Variables fixed to 0 or 1 by branching
+  fixings: Array<{ variable: number; value: 0 | 1 }>;
+  depth: number;
+  treeId: number;
+}
+
+// Branch and Cut - LP relaxation of the Dantzig-Fulkerson-Johnson formulation. Subtour
+// elimination constraints are added lazily whenever the LP solution contains a subtour,
+// and fractional solutions are branched on their most fractional edge.
+export function branchAndCutTSP(
+  distanceMatrix: number[][],
+  startNode = 0,
+  onProgress?: ProgressCallback
+): TSPResult {
+  const startTime = performance.now();
+  const d = distanceMatrix;
+  const n = d.length;
+  const steps: AlgorithmStep[] = [];
+  const searchTree: SearchTreeNode[] = [];
+
+  if (n < 3) {
+    const path = rotateToStart(Array.from({ length: n }, (_, i) => i), startNode);
+    const cost = n > 1 ? calculatePathCost(path, d) : 0;
+    steps.push({
+      description: `Only ${n} cit${n === 1 ? 'y' : 'ies'}: the tour is forced`,
+      visitedNodes: [...path],
+      currentPath: [...path],
+      cost
+    });
+    return { path, cost, executionTime: performance.now() - startTime, steps, provenOptimal: true };
+  }
+
+  const symmetric = isSymmetric(d);
+  const variables: Variable[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = symmetric ? i + 1 : 0; j < n; j++) {
+      if (i !== j) variables.push({ from: i, to: j });
+    }
+  }
+  const objective = variables.map(({ from, to }) => d[from][to]);
+
+  // Degree constraints: every city has two tour edges, or one arc out and one arc in
+  const degreeRows: LinearConstraint[] = [];
+  for (let i = 0; i < n; i++) {
+    if (symmetric) {
+      const terms = variables.flatMap((v, k): Array<[number, number]> => (v.from === i || v.to === i ? [[k, 1]] : []));
+      degreeRows.push({ terms, sense: '=', rhs: 2 });
+    } else {
+      degreeRows.push({ terms: variables.flatMap((v, k): Array<[number, number]> => (v.from === i ? [[k, 1]] : [])), sense: '=', rhs: 1 });
+      degreeRows.push({ terms: variables.flatMap((v, k): Array<[number, number]> => (v.to === i ? [[k, 1]] : [])), sense: '=', rhs: 1 });
+    }
+  }
+
+  // Subtour elimination constraints found so far, shared by every subproblem: x(E(S)) ≤ |S| - 1
+  const cuts: number[][] = [];
+  const cutKeys = new Set<string>();
+  const cutRow = (subset: number[]): LinearConstraint => {
+    const inside = new Set(subset);
+    return {
+      terms: variables.flatMap((v, k): Array<[number, number]> => (inside.has(v.from) && inside.has(v.to) ? [[k, 1]] : [])),
+      sense: '<=',
+      rhs: subset.length - 1
+    };
+  };
+
+  const seed = twoOptTSP(d, greedyTSP(d, startNode).path, startNode);
+  let bestPath = seed.path;
+  let bestCost = seed.cost;
+  let explored = 0;
+  let lpSolves = 0;
+
+  steps.push({
+    description: "Start with a 2-opt improved nearest neighbour tour as incumbent",
+    visitedNodes: [...bestPath],
+    currentPath: [...bestPath],
+    cost: bestCost,
+    additionalInfo: `${variables.length} ${symmetric ? 'edge' : 'arc'} variables, ${degreeRows.length} degree constraints. ` +
+      "Subtour constraints are only added once an LP solution violates them"
+  });
+
+  const recording = () => searchTree.length < MAX_RECORDED_NODES;
+
+  const addTreeNode = (parentId: number | null, depth: number, decision: string, lowerBound: number) => {
+    if (!recording()) return -1;
+    searchTree.push({ id: searchTree.length, parentId, depth, decision, lowerBound, status: 'open', createdStep: steps.length });
+    return searchTree.length - 1;
+  };
+
+  const resolve = (treeId: number, status: SearchTreeStatus) => {
+    if (treeId === -1) return;
+    searchTree[treeId].status = status;
+    searchTree[treeId].resolvedStep = steps.length - 1;
+  };
+
+  const recordStep = (node: SubProblem, step: Partial<AlgorithmStep> & { description: string }) => {
+    if (node.treeId === -1) return;
+    steps.push({ visitedNodes: [], currentPath: [], treeNodeId: node.treeId, ...step });
+  };
+
+  const label = (k: number) => `x(${variables[k].from}, ${variables[k].to})`;
+
+  // Values are drawn as edge opacity; on symmetric instances an edge can carry up to 2 before
+  // the two-city subtour constraint for it has been added
+  const edgeWeights = (values: number[]) => values.flatMap((value, k) =>
+    value > INTEGRALITY_TOLERANCE ? [{ from: variables[k].from, to: variables[k].to, weight: Math.min(1, value) }] : []
+  );
+
+  const stack: SubProblem[] = [{ fixings: [], depth: 0, treeId: addTreeNode(null, 0, 'root', 0) }];
+  let rootBound = 0;
+
+  while (stack.length > 0 && explored < MAX_BRANCH_NODES) {
+    const node = stack.pop()!;
+    explored++;
+    onProgress?.(explored / MAX_BRANCH_NODES);
+
+    const fixingRows = node.fixings.map(({ variable, value }): LinearConstraint => ({ terms: [[variable, 1]], sense: '=', rhs: value }));
+    let values: number[] = [];
+    let bound = Infinity;
+    let round = 0;
+
+    // Cutting plane loop: resolve the LP until it violates no subtour constraint
+    for (;;) {
+      round++;
+      lpSolves++;
+      const lp = solveLinearProgram({
+        variableCount: variables.length,
+        objective,
+        constraints: [...degreeRows, ...cuts.map(cutRow), ...fixingRows]
+      });
+      if (lp.status !== 'optimal') {
+        bound = Infinity;
+        break;
+      }
+      values = lp.values;
+      bound = lp.objective;
+      if (node.treeId !== -1) searchTree[node.treeId].lowerBound = bound;
+      if (node.depth === 0) rootBound = bound;
+
+      const fractional = values.filter((x) => x > INTEGRALITY_TOLERANCE && x < 1 - INTEGRALITY_TOLERANCE).length;
+      recordStep(node, {
+        description: `LP relaxation ${round === 1 ? '' : `(cut round ${round}) `}bound ${bound.toFixed(2)}`,
+        edgeWeights: edgeWeights(values),
+        cost: bound,
+        additionalInfo: `${values.filter((x) => x >= 1 - INTEGRALITY_TOLERANCE).length} ${symmetric ? 'edges' : 'arcs'} at 1, ` +
+          `${fractional} fractional (drawn fainter). ${cuts.length} subtour constraint${cuts.length === 1 ? '' : 's'} so far`
+      });
+
+      if (bound >= bestCost - 1e-9) break;
+
+      const violated = separateSubtours(values, variables, n).filter((subset) => !cutKeys.has(subset.join(',')));
+      if (violated.length === 0) break;
+
+      violated.forEach((subset) => {
+        cutKeys.add(subset.join(','));
+        cuts.push(subset);
+      });
+      const inside = (subset: number[]) => variables.reduce(
+        (sum, v, k) => sum + (subset.includes(v.from) && subset.includes(v.to) ? values[k] : 0), 0
+      );
+      recordStep(node, {
+        description: `Found ${violated.length} violated subtour${violated.length === 1 ? '' : 's'}: ` +
+          violated.map((subset) => `{${subset.join(', ')}}`).join(', '),
+        visitedNodes: violated.flat(),
+        edgeWeights: edgeWeights(values),
+        exploringEdges: variables.filter((v, k) => values[k] > INTEGRALITY_TOLERANCE &&
+          violated.some((subset) => subset.includes(v.from) && subset.includes(v.to))),
+        cost: bound,
+        additionalInfo: violated.map((subset) =>
+          `x(E(S)) = ${inside(subset).toFixed(2)} > |S| - 1 = ${subset.length - 1}`
+        ).join('; ') + '. Each becomes a constraint and the LP is solved again'
+      });
+    }
+
+    if (bound === Infinity) {
+      recordStep(node, {
+        description: "LP infeasible: these fixings admit no tour",
+        cost: bound,
+        additionalInfo: `Fixed: ${node.fixings.map(({ variable, value }) => `${label(variable)} = ${value}`).join(', ')}`
+      });
+      resolve(node.treeId, 'infeasible');
+      continue;
+    }
+
+    if (bound >= bestCost - 1e-9) {
+      recordStep(node, {
+        description: `Prune: LP bound ${bound.toFixed(2)} ≥ incumbent ${bestCost.toFixed(2)}`,
+        edgeWeights: edgeWeights(values),
+        cost: bound,
+        additionalInfo: "This subproblem cannot contain a better tour"
+      });
+      resolve(node.treeId, 'pruned');
+      continue;
+    }
+
+    // The most fractional variable is the least decided one
+    let branchOn = -1;
+    values.forEach((x, k) => {
+      if (x <= INTEGRALITY_TOLERANCE || x >= 1 - INTEGRALITY_TOLERANCE) return;
+      if (branchOn === -1 || Math.abs(x - 0.5) < Math.abs(values[branchOn] - 0.5)) branchOn = k;
+    });
+
+    if (branchOn === -1) {
+      // Integral and free of subtours: the LP solution is a tour
+      const tour = rotateToStart(tourFrom(values, variables, n, symmetric), startNode);
+      const cost = calculatePathCost(tour, d);
+      if (cost < bestCost - 1e-9) {
+        bestCost = cost;
+        bestPath = tour;
+      }
+      recordStep(node, {
+        description: `Integral LP solution: tour with cost ${cost.toFixed(2)}`,
+        visitedNodes: [...tour],
+        currentPath: [...tour],
+        cost,
+        additionalInfo: "No subtours and no fractional edges, so the LP bound is attained. New incumbent"
+      });
+      resolve(node.treeId, 'solution');
+      continue;
+    }
+
+    recordStep(node, {
+      description: `Branch on ${label(branchOn)} = ${values[branchOn].toFixed(2)}`,
+      edgeWeights: edgeWeights(values),
+      highlightEdge: variables[branchOn],
+      cost: bound,
+      additionalInfo: `No violated subtour left, but the LP solution is fractional. Incumbent: ${bestCost.toFixed(2)}`
+    });
+    resolve(node.treeId, 'branched');
+
+    // Depth first, trying the edge in the tour first so a good incumbent is found early
+    for (const value of [0, 1] as const) {
+      stack.push({
+        fixings: [...node.fixings, { variable: branchOn, value }],
+        depth: node.depth + 1,
+        treeId: addTreeNode(node.treeId, node.depth + 1, `${label(branchOn)} = ${value}`, bound)
+      });
+    }
+  }
+
+  const proven = stack.length === 0;
+  steps.push({
+    description: proven ? "Search complete: incumbent is optimal" : "Node limit reached: incumbent not proven optimal",
+    visitedNodes: [...bestPath],
+    currentPath: [...bestPath],
+    cost: bestCost,
+    additionalInfo: `Explored ${explored} subproblems with ${lpSolves} LP solves and ${cuts.length} subtour constraints. ` +
+      `Root LP bound ${rootBound.toFixed(2)}` +
+      (searchTree.length >= MAX_RECORDED_NODES ? ` (first ${MAX_RECORDED_NODES} subproblems shown in the search tree)` : '')
+  });
+
+  const executionTime = performance.now() - startTime;
+  return { path: bestPath, cost: bestCost, executionTime, steps, provenOptimal: proven, searchTree };
+}
+
+// Cities of every violated subtour constraint found: each connected component of the support
+// graph when it is disconnected, otherwise the smaller side of a global minimum cut below 2
+function separateSubtours(values: number[], variables: Variable[], n: number): number[][] {
+  const weight = Array.from({ length: n }, () => new Array(n).fill(0));
+  values.forEach((x, k) => {
+    const { from, to } = variables[k];
+    weight[from][to] += x;
+    weight[to][from] += x;
+  });
+
+  const components = connectedComponents(weight);
+  if (components.length > 1) return components.map((component) => [...component].sort((a, b) => a - b));
+
+  const { value, side } = stoerWagnerMinCut(weight);
+  if (value >= 2 - CUT_TOLERANCE) return [];
+  const smaller = side.length * 2 <= n ? side : Array.from({ length: n }, (_, i) => i).filter((i) => !side.includes(i));
+  return [[...smaller].sort((a, b) => a - b)];
+}
+
+function connectedComponents(weight: number[][]): number[][] {
+  const n = weight.length;
+  const seen = new Array(n).fill(false);
+  const components: number[][] = [];
+  for (let s = 0; s < n; s++) {
+    if (seen[s]) continue;
+    const component = [s];
+    seen[s] = true;
+    for (let k = 0; k < component.length; k++) {
+      for (let j = 0; j < n; j++) {
+        if (!seen[j] && weight[component[k]][j] > INTEGRALITY_TOLERANCE) {
+          seen[j] = true;
+          component.push(j);
+        }
+      }
+    }
+    components.push(component);
+  }
+  return components;
+}
+
+// Stoer-Wagner global minimum cut of an undirected weighted graph, O(n³)
+function stoerWagnerMinCut(weight: number[][]): { value: number; side: number[] } {
+  const n = weight.length;
+  const w = weight.map((row) => [...row]);
+  // Original cities merged into each remaining vertex
+  const members = Array.from({ length: n }, (_, i) => [i]);
+  const active = Array.from({ length: n }, (_, i) => i);
+  let best = { value: Infinity, side: [] as number[] };
+
+  while (active.length > 1) {
+    const added = new Array(n).fill(false);
+    const connection = new Array(n).fill(0);
+    let previous = -1;
+    let last = -1;
+
+    for (let k = 0; k < active.length; k++) {
+      let next = -1;
+      for (const v of active) {
+        if (!added[v] && (next === -1 || connection[v] > connection[next])) next = v;
+      }
+      added[next] = true;
+      if (k === active.length - 1) {
+        if (connection[next] < best.value) best = { value: connection[next], side: [...members[next]] };
+      }
+      previous = last;
+      last = next;
+      for (const v of active) {
+        if (!added[v]) connection[v] += w[next][v];
+      }
+    }
+
+    // Merge the last vertex into the one added before it
+    members[previous].push(...members[last]);
+    for (const v of active) {
+      w[previous][v] += w[last][v];
+      w[v][previous] = w[previous][v];
+    }
+    active.splice(active.indexOf(last), 1);
+  }
+
+  return best;
+}
+
+// Follows the edges at 1 of an integral, subtour-free LP solution
+function tourFrom(values: number[], variables: Variable[], n: number, symmetric: boolean): number[] {
+  const neighbours = Array.from({ length: n }, () => [] as number[]);
+  values.forEach((x, k) => {
+    if (x < 0.5) return;
+    const { from, to } = variables[k];
+    neighbours[from].push(to);
+    // Arcs are followed in their own direction only
+    if (symmetric) neighbours[to].push(from);
+  });
+
+  const tour = [0];
+  const visited = new Set([0]);
+  while (tour.length < n) {
+    const next = neighbours[tour[tour.length - 1]].find((v) => !visited.has(v));
+    if (next === undefined) break;
+    tour.push(next);
+    visited.add(next);
+  }
+  return tour;
+}
@@ -2,8 +2,26 @@ export interface Point {
   x: number;
   y: number;
   id: number;
+  // Geographic position in degrees, used by the haversine metric
+  lat?: number;
+  lon?: number;
+  // Service may only start inside the window; travel time equals distance
+  timeWindow?: TimeWindow;
+  serviceTime?: number;
+  // Load picked up by a vehicle; cities without one count as 1
+  demand?: number;
 }
 
+export interface TimeWindow {
+  earliest: number;
+  latest: number;
+}
+
+// euc2d is TSPLIB's EUC_2D: Euclidean distance rounded to the nearest integer
+export type DistanceMetric = 'euclidean' | 'euc2d' | 'manhattan' | 'chebyshev' | 'squared' | 'haversine';
+
+const EARTH_RADIUS_KM = 6371;
+
 export interface Edge {
   from: number;
   to: number;
@@ -15,28 +33,61 @@ export function generateRandomPoints(count: number, width: number, height: numbe
   const padding = 50;
   
   for (let i = 0; i < count; i++) {
+    const x = padding + Math.random() * (width - 2 * padding);
+    const y = padding + Math.random() * (height - 2 * padding);
+    // Read the canvas as an equirectangular world map so the haversine metric has coordinates
     points.push({
-      x: padding + Math.random() * (width - 2 * padding),
-      y: padding + Math.random() * (height - 2 * padding),
-      id: i
+      x,
+      y,
+      id: i,
+      lat: 90 - (y / height) * 180,
+      lon: (x / width) * 360 - 180
     });
   }
   
   return points;
 }
 
-export function calculateDistance(p1: Point, p2: Point): number {
-  return Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
+export function calculateDistance(p1: Point, p2: Point, metric: DistanceMetric = 'euclidean'): number {
+  const dx = Math.abs(p1.x - p2.x);
+  const dy = Math.abs(p1.y - p2.y);
+
+  switch (metric) {
+    case 'euclidean':
+      return Math.sqrt(dx * dx + dy * dy);
+    case 'euc2d':
+      return Math.round(Math.sqrt(dx * dx + dy * dy));
+    case 'manhattan':
+      return dx + dy;
+    case 'chebyshev':
+      return Math.max(dx, dy);
+    case 'squared':
+      return dx * dx + dy * dy;
+    case 'haversine':
+      return haversineDistance(p1, p2);
+  }
+}
+
+// Great-circle distance in kilometres. Points without lat/lon are read as x = longitude, y = latitude.
+function haversineDistance(p1: Point, p2: Point): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const lat1 = toRadians(p1.lat ?? p1.y);
+  const lat2 = toRadians(p2.lat ?? p2.y);
+  const dLat = lat2 - lat1;
+  const dLon = toRadians((p2.lon ?? p2.x) - (p1.lon ?? p1.x));
+
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
 }
 
-export function createDistanceMatrix(points: Point[]): number[][] {
+export function createDistanceMatrix(points: Point[], metric: DistanceMetric = 'euclidean'): number[][] {
   const n = points.length;
   const matrix: number[][] = Array(n).fill(0).map(() => Array(n).fill(0));
   
   for (let i = 0; i < n; i++) {
     for (let j = 0; j < n; j++) {
       if (i !== j) {
-        matrix[i][j] = calculateDistance(points[i], points[j]);
+        matrix[i][j] = calculateDistance(points[i], points[j], metric);
       }
     }
   }
@@ -44,12 +95,41 @@ export function createDistanceMatrix(points: Point[]): number[][] {
   return matrix;
 }
 
-export function calculatePathCost(path: number[], distanceMatrix: number[][]): number {
+// Independent random factor in [1, 1 + skew] for each direction of each edge
+export function randomDirectionFactors(n: number, skew = 0.5): number[][] {
+  return Array.from({ length: n }, () => Array.from({ length: n }, () => 1 + skew * Math.random()));
+}
+
+// Directed instance: each direction of an edge costs its length scaled by its own factor,
+// like one-way streets or uphill roads. Keeping the factors lets the metric change later.
+export function createAsymmetricDistanceMatrix(
+  points: Point[],
+  factors: number[][],
+  metric: DistanceMetric = 'euclidean'
+): number[][] {
+  return createDistanceMatrix(points, metric).map((row, i) => row.map((distance, j) => distance * factors[i][j]));
+}
+
+export function isSymmetric(distanceMatrix: number[][]): boolean {
+  return distanceMatrix.every((row, i) => row.every((value, j) => Math.abs(value - distanceMatrix[j][i]) < 1e-9));
+}
+
+// Change in cost when path[from..to] is traversed backwards; always zero on symmetric instances
+export function reversalCostDelta(path: number[], from: number, to: number, distanceMatrix: number[][]): number {
+  let delta = 0;
+  for (let k = from; k < to; k++) {
+    delta += distanceMatrix[path[k + 1]][path[k]] - distanceMatrix[path[k]][path[k + 1]];
+  }
+  return delta;
+}
+
+// Open paths (closed = false) stop at their last city instead of returning to path[0]
+export function calculatePathCost(path: number[], distanceMatrix: number[][], closed = true): number {
   let cost = 0;
   for (let i = 0; i < path.length - 1; i++) {
     cost += distanceMatrix[path[i]][path[i + 1]];
   }
   // Add cost to return to start
-  cost += distanceMatrix[path[path.length - 1]][path[0]];
+  if (closed) cost += distanceMatrix[path[path.length - 1]][path[0]];
   return cost;
 }
@@ -0,0 +1,218 @@
+import { calculatePathCost, Point } from './graph-generator';
+import { AlgorithmStep, TSPResult, rotateToStart } from './tsp-algorithms';
+
+type InsertionStrategy = 'nearest' | 'farthest' | 'cheapest' | 'random';
+
+// Nearest Insertion - add the city closest to the subtour at its cheapest position
+export function nearestInsertionTSP(distanceMatrix: number[][], startNode = 0): TSPResult {
+  return insertionTSP(distanceMatrix, 'nearest', startNode);
+}
+
+// Farthest Insertion - add the city farthest from the subtour at its cheapest position
+export function farthestInsertionTSP(distanceMatrix: number[][], startNode = 0): TSPResult {
+  return insertionTSP(distanceMatrix, 'farthest', startNode);
+}
+
+// Cheapest Insertion - add the city and position with the smallest cost increase
+export function cheapestInsertionTSP(distanceMatrix: number[][], startNode = 0): TSPResult {
+  return insertionTSP(distanceMatrix, 'cheapest', startNode);
+}
+
+// Random Insertion - add a random city at its cheapest position
+export function randomInsertionTSP(distanceMatrix: number[][], startNode = 0): TSPResult {
+  return insertionTSP(distanceMatrix, 'random', startNode);
+}
+
+const SELECTION_RULES: Record<InsertionStrategy, string> = {
+  nearest: 'the unvisited city closest to any city in the subtour',
+  farthest: 'the unvisited city whose distance to the subtour is largest',
+  cheapest: 'the unvisited city that increases the subtour cost the least',
+  random: 'a random unvisited city'
+};
+
+// Convex Hull Insertion - start from the hull of the points, then cheapest insertion
+export function convexHullInsertionTSP(points: Point[], distanceMatrix: number[][], startNode = 0): TSPResult {
+  const startTime = performance.now();
+  const steps: AlgorithmStep[] = [];
+  const hull = convexHull(points);
+
+  steps.push({
+    description: `Compute the convex hull: ${hull.length} of ${points.length} cities lie on it`,
+    visitedNodes: [...hull],
+    currentPath: [],
+    exploringEdges: hull.map((node, i) => ({ from: node, to: hull[(i + 1) % hull.length] })),
+    cost: 0,
+    additionalInfo: "An optimal Euclidean tour visits the hull cities in hull order"
+  });
+
+  // Trace the hull edge by edge so the subtour grows around the outside
+  for (let k = 1; k < hull.length; k++) {
+    const tour = hull.slice(0, k + 1);
+    steps.push({
+      description: `Add hull city ${hull[k]} after ${hull[k - 1]}`,
+      currentNode: hull[k],
+      visitedNodes: [...tour],
+      currentPath: tour,
+      highlightEdge: { from: hull[k - 1], to: hull[k] },
+      cost: calculatePathCost(tour, distanceMatrix),
+      additionalInfo: "Walking around the hull in order"
+    });
+  }
+
+  const tour = [...hull];
+  insertRemaining(distanceMatrix, 'cheapest', tour, steps);
+  return finishTour(distanceMatrix, rotateToStart(tour, startNode), steps, startTime);
+}
+
+function insertionTSP(distanceMatrix: number[][], strategy: InsertionStrategy, startNode: number): TSPResult {
+  const startTime = performance.now();
+  const steps: AlgorithmStep[] = [];
+  const tour: number[] = [startNode];
+
+  steps.push({
+    description: `Start the subtour at node ${startNode}`,
+    currentNode: startNode,
+    visitedNodes: [startNode],
+    currentPath: [startNode],
+    cost: 0,
+    additionalInfo: `Each step adds ${SELECTION_RULES[strategy]}`
+  });
+
+  insertRemaining(distanceMatrix, strategy, tour, steps);
+  return finishTour(distanceMatrix, tour, steps, startTime);
+}
+
+// Grows the subtour in place until it contains every city, recording two steps per insertion
+function insertRemaining(distanceMatrix: number[][], strategy: InsertionStrategy, tour: number[], steps: AlgorithmStep[]) {
+  const n = distanceMatrix.length;
+  const inTour = new Array(n).fill(false);
+  tour.forEach((node) => (inTour[node] = true));
+
+  // Distance from each city to its closest city in the subtour
+  const distanceToTour = Array.from({ length: n }, (_, k) => Math.min(...tour.map((node) => distanceMatrix[node][k])));
+
+  // Cost increase of placing city k between tour[position] and its successor
+  const insertionCost = (k: number, position: number) => {
+    const i = tour[position];
+    const j = tour[(position + 1) % tour.length];
+    return distanceMatrix[i][k] + distanceMatrix[k][j] - distanceMatrix[i][j];
+  };
+
+  const cheapestPosition = (k: number) => {
+    let best = { position: 0, increase: Infinity };
+    for (let position = 0; position < tour.length; position++) {
+      const increase = insertionCost(k, position);
+      if (increase < best.increase) best = { position, increase };
+    }
+    return best;
+  };
+
+  while (tour.length < n) {
+    const remaining = Array.from({ length: n }, (_, i) => i).filter((i) => !inTour[i]);
+
+    let city = remaining[0];
+    let placement = { position: 0, increase: Infinity };
+    let reason = '';
+
+    if (strategy === 'cheapest') {
+      for (const k of remaining) {
+        const candidate = cheapestPosition(k);
+        if (candidate.increase < placement.increase) {
+          city = k;
+          placement = candidate;
+        }
+      }
+      reason = `cheapest cost increase ${placement.increase.toFixed(2)} over all ${remaining.length} candidates`;
+    } else {
+      if (strategy === 'random') {
+        city = remaining[Math.floor(Math.random() * remaining.length)];
+        reason = `picked at random from ${remaining.length} candidates`;
+      } else {
+        for (const k of remaining) {
+          const better = strategy === 'nearest'
+            ? distanceToTour[k] < distanceToTour[city]
+            : distanceToTour[k] > distanceToTour[city];
+          if (better) city = k;
+        }
+        reason = `distance to subtour ${distanceToTour[city].toFixed(2)}`;
+      }
+      placement = cheapestPosition(city);
+    }
+
+    const before = tour.reduce((sum, node, i) => sum + distanceMatrix[node][tour[(i + 1) % tour.length]], 0);
+
+    steps.push({
+      description: `Select city ${city} (${reason})`,
+      currentNode: city,
+      visitedNodes: [...tour],
+      currentPath: [...tour],
+      exploringEdges: tour.map((node) => ({ from: node, to: city })),
+      cost: before,
+      additionalInfo: `Choosing ${SELECTION_RULES[strategy]}`
+    });
+
+    const from = tour[placement.position];
+    const to = tour[(placement.position + 1) % tour.length];
+    tour.splice(placement.position + 1, 0, city);
+    inTour[city] = true;
+    for (let k = 0; k < n; k++) {
+      distanceToTour[k] = Math.min(distanceToTour[k], distanceMatrix[city][k]);
+    }
+
+    const cost = tour.length > 1 ? calculatePathCost(tour, distanceMatrix) : 0;
+    steps.push({
+      description: tour.length === 2
+        ? `Insert city ${city}: subtour ${from} → ${city} → ${from}`
+        : `Insert city ${city} into edge ${from} → ${to}`,
+      currentNode: city,
+      visitedNodes: [...tour],
+      currentPath: [...tour],
+      removedEdges: tour.length > 2 ? [{ from, to }] : undefined,
+      addedEdges: [{ from, to: city }, { from: city, to }],
+      cost,
+      costDelta: cost - before,
+      additionalInfo: `Cost increase d(${from},${city}) + d(${city},${to}) - d(${from},${to}) = ${(cost - before).toFixed(2)}`
+    });
+  }
+}
+
+function finishTour(distanceMatrix: number[][], tour: number[], steps: AlgorithmStep[], startTime: number): TSPResult {
+  const cost = tour.length > 1 ? calculatePathCost(tour, distanceMatrix) : 0;
+  steps.push({
+    description: "All cities inserted",
+    visitedNodes: [...tour],
+    currentPath: [...tour],
+    cost,
+    additionalInfo: `Final tour cost: ${cost.toFixed(2)}`
+  });
+
+  const executionTime = performance.now() - startTime;
+  return {
+    path: tour,
+    cost,
+    executionTime,
+    steps
+  };
+}
+
+// Andrew's monotone chain; returns hull cities in order around the hull, without collinear points
+function convexHull(points: Point[]): number[] {
+  const sorted = points.map((_, i) => i).sort((a, b) => points[a].x - points[b].x || points[a].y - points[b].y);
+  if (sorted.length < 3) return sorted;
+
+  const cross = (o: number, a: number, b: number) =>
+    (points[a].x - points[o].x) * (points[b].y - points[o].y) - (points[a].y - points[o].y) * (points[b].x - points[o].x);
+
+  const lower: number[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: number[] = [];
+  for (const p of [...sorted].reverse()) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
@@ -0,0 +1,73 @@
+// Triple where going i → k directly costs more than the detour i → j → k
+export interface TriangleViolation {
+  i: number;
+  j: number;
+  k: number;
+  direct: number;
+  detour: number;
+}
+
+export interface InstanceAnalysis {
+  symmetric: boolean;
+  // Pairs (i, j) with i < j where d(i, j) ≠ d(j, i)
+  asymmetricPairs: number;
+  zeroDiagonal: boolean;
+  triangleViolations: number;
+  // Worst violations first, by how much the direct edge exceeds the detour
+  examples: TriangleViolation[];
+  // Symmetric, zero diagonal and triangle inequality: Christofides keeps its 1.5× guarantee
+  metric: boolean;
+}
+
+// Violating triples kept for display; the count covers all of them
+const MAX_EXAMPLES = 10;
+
+const TOLERANCE = 1e-9;
+
+// Checks every ordered triple, so asymmetric instances are tested in both directions;
+// symmetric ones skip the mirrored triple (k, j, i). O(n³).
+export function analyzeInstance(distanceMatrix: number[][]): InstanceAnalysis {
+  const n = distanceMatrix.length;
+  const d = distanceMatrix;
+
+  let asymmetricPairs = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (Math.abs(d[i][j] - d[j][i]) > TOLERANCE * Math.max(1, d[i][j])) asymmetricPairs++;
+    }
+  }
+
+  const symmetric = asymmetricPairs === 0;
+  const zeroDiagonal = d.every((row, i) => Math.abs(row[i]) <= TOLERANCE);
+
+  let triangleViolations = 0;
+  let examples: TriangleViolation[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let k = 0; k < n; k++) {
+      if (k === i || (symmetric && k < i)) continue;
+      for (let j = 0; j < n; j++) {
+        if (j === i || j === k) continue;
+        const detour = d[i][j] + d[j][k];
+        if (d[i][k] - detour <= TOLERANCE * Math.max(1, d[i][k])) continue;
+
+        triangleViolations++;
+        examples.push({ i, j, k, direct: d[i][k], detour });
+        // Trim lazily so dense violations stay cheap
+        if (examples.length > 4 * MAX_EXAMPLES) examples = worstFirst(examples).slice(0, MAX_EXAMPLES);
+      }
+    }
+  }
+
+  return {
+    symmetric,
+    asymmetricPairs,
+    zeroDiagonal,
+    triangleViolations,
+    examples: worstFirst(examples).slice(0, MAX_EXAMPLES),
+    metric: symmetric && zeroDiagonal && triangleViolations === 0
+  };
+}
+
+function worstFirst(violations: TriangleViolation[]): TriangleViolation[] {
+  return [...violations].sort((a, b) => (b.direct - b.detour) - (a.direct - a.detour));
+}
@@ -0,0 +1,167 @@
+import { primMST } from './tsp-algorithms';
+
+export interface LowerBounds {
+  mst: number;
+  oneTree: number;
+  assignment: number;
+  // Strongest of the bounds above
+  best: number;
+}
+
+// Subgradient iterations for the Held-Karp 1-tree bound
+const ONE_TREE_ITERATIONS = 200;
+
+export function computeLowerBounds(distanceMatrix: number[][], upperBound: number): LowerBounds {
+  // The tree bounds ignore direction; charging each edge its cheaper direction keeps them valid on
+  // asymmetric instances, while the assignment bound uses the directed costs as they are
+  const undirected = distanceMatrix.map((row, i) => row.map((value, j) => Math.min(value, distanceMatrix[j][i])));
+  const mst = primMST(undirected).reduce((sum, e) => sum + e.weight, 0);
+  const oneTree = heldKarpOneTreeBound(undirected, upperBound);
+  const assignment = assignmentBound(distanceMatrix);
+  return { mst, oneTree, assignment, best: Math.max(mst, oneTree, assignment) };
+}
+
+// Percentage by which a tour cost exceeds a lower bound
+export function optimalityGap(cost: number, lowerBound: number): number {
+  return lowerBound > 0 ? ((cost - lowerBound) / lowerBound) * 100 : 0;
+}
+
+// Held-Karp bound: maximise the 1-tree weight over node penalties π by subgradient ascent.
+// Every tour is a 1-tree with all degrees 2, so w(T) - 2Σπ never exceeds the optimum.
+function heldKarpOneTreeBound(distanceMatrix: number[][], upperBound: number): number {
+  const n = distanceMatrix.length;
+  if (n < 3) return 0;
+
+  const pi = new Array(n).fill(0);
+  let best = -Infinity;
+  let lambda = 2;
+  let sinceImprovement = 0;
+
+  for (let iteration = 0; iteration < ONE_TREE_ITERATIONS; iteration++) {
+    const { weight, degree } = minimumOneTree(distanceMatrix, pi);
+    const bound = weight - 2 * pi.reduce((sum, p) => sum + p, 0);
+
+    if (bound > best + 1e-9) {
+      best = bound;
+      sinceImprovement = 0;
+    } else if (++sinceImprovement >= Math.max(5, Math.floor(n / 2))) {
+      lambda /= 2;
+      sinceImprovement = 0;
+    }
+
+    const norm = degree.reduce((sum, deg) => sum + (deg - 2) * (deg - 2), 0);
+    // All degrees are 2: the 1-tree is an optimal tour
+    if (norm === 0 || lambda < 1e-6) break;
+
+    const stepSize = (lambda * Math.max(upperBound - bound, 1e-6)) / norm;
+    for (let i = 0; i < n; i++) {
+      pi[i] += stepSize * (degree[i] - 2);
+    }
+  }
+
+  return best;
+}
+
+// MST over nodes 1..n-1 plus the two cheapest edges at node 0, with weights d[i][j] + π[i] + π[j]
+function minimumOneTree(distanceMatrix: number[][], pi: number[]): { weight: number; degree: number[] } {
+  const n = distanceMatrix.length;
+  const cost = (i: number, j: number) => distanceMatrix[i][j] + pi[i] + pi[j];
+  const degree = new Array(n).fill(0);
+  const inTree = new Array(n).fill(false);
+  const minEdge = new Array(n).fill(Infinity);
+  const parent = new Array(n).fill(-1);
+  let weight = 0;
+
+  minEdge[1] = 0;
+  for (let k = 1; k < n; k++) {
+    let next = -1;
+    for (let v = 1; v < n; v++) {
+      if (!inTree[v] && (next === -1 || minEdge[v] < minEdge[next])) next = v;
+    }
+    inTree[next] = true;
+    if (parent[next] !== -1) {
+      weight += minEdge[next];
+      degree[next]++;
+      degree[parent[next]]++;
+    }
+    for (let v = 1; v < n; v++) {
+      if (!inTree[v] && cost(next, v) < minEdge[v]) {
+        minEdge[v] = cost(next, v);
+        parent[v] = next;
+      }
+    }
+  }
+
+  const toZero = Array.from({ length: n - 1 }, (_, i) => i + 1).sort((a, b) => cost(0, a) - cost(0, b));
+  for (const v of toZero.slice(0, 2)) {
+    weight += cost(0, v);
+    degree[0]++;
+    degree[v]++;
+  }
+
+  return { weight, degree };
+}
+
+// Assignment relaxation: every city has one successor, but subtours are allowed.
+// Solved exactly with the Hungarian algorithm in O(n³).
+function assignmentBound(distanceMatrix: number[][]): number {
+  const n = distanceMatrix.length;
+  if (n < 2) return 0;
+
+  // A large finite cost forbids self-loops while keeping the potentials finite
+  const forbidden = 1 + 2 * n * Math.max(...distanceMatrix.map(row => Math.max(...row)));
+  const cost = (i: number, j: number) => (i === j ? forbidden : distanceMatrix[i][j]);
+
+  // 1-indexed potentials u (rows), v (columns); match[j] is the row assigned to column j
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(n + 1).fill(0);
+  const match = new Array(n + 1).fill(0);
+  const way = new Array(n + 1).fill(0);
+
+  for (let row = 1; row <= n; row++) {
+    match[0] = row;
+    let col0 = 0;
+    const minv = new Array(n + 1).fill(Infinity);
+    const used = new Array(n + 1).fill(false);
+
+    do {
+      used[col0] = true;
+      const i0 = match[col0];
+      let delta = Infinity;
+      let col1 = 0;
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const reduced = cost(i0 - 1, j - 1) - u[i0] - v[j];
+        if (reduced < minv[j]) {
+          minv[j] = reduced;
+          way[j] = col0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          col1 = j;
+        }
+      }
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[match[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      col0 = col1;
+    } while (match[col0] !== 0);
+
+    do {
+      const col1 = way[col0];
+      match[col0] = match[col1];
+      col0 = col1;
+    } while (col0 !== 0);
+  }
+
+  let total = 0;
+  for (let j = 1; j <= n; j++) {
+    total += cost(match[j] - 1, j - 1);
+  }
+  return total;
+}
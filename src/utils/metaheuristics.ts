@@ -0,0 +1,878 @@
+import { calculatePathCost, isSymmetric, reversalCostDelta } from './graph-generator';
+import { AlgorithmStep, ProgressCallback, TSPResult, greedyTSP, rotateToStart } from './tsp-algorithms';
+
+export type CoolingSchedule = 'geometric' | 'linear' | 'logarithmic';
+
+export interface SimulatedAnnealingOptions {
+  initialTemperature: number;
+  coolingSchedule: CoolingSchedule;
+  iterations: number;
+  sampleCount: number;
+}
+
+export const DEFAULT_SIMULATED_ANNEALING_OPTIONS: SimulatedAnnealingOptions = {
+  initialTemperature: 200,
+  coolingSchedule: 'geometric',
+  iterations: 20000,
+  sampleCount: 100
+};
+
+// Temperature after `iteration` of `iterations` moves
+function temperatureAt(options: SimulatedAnnealingOptions, iteration: number): number {
+  const { initialTemperature, coolingSchedule, iterations } = options;
+  const progress = iteration / iterations;
+
+  switch (coolingSchedule) {
+    case 'geometric':
+      // Cool down to 0.1% of the initial temperature by the last iteration
+      return initialTemperature * Math.pow(1e-3, progress);
+    case 'linear':
+      return initialTemperature * (1 - progress);
+    case 'logarithmic':
+      return initialTemperature * Math.LN2 / Math.log(iteration + 2);
+  }
+}
+
+// Simulated Annealing - random 2-opt moves, accepting uphill moves with probability e^(-Δ/T)
+export function simulatedAnnealingTSP(
+  distanceMatrix: number[][],
+  options: SimulatedAnnealingOptions = DEFAULT_SIMULATED_ANNEALING_OPTIONS,
+  startNode = 0,
+  onProgress?: ProgressCallback
+): TSPResult {
+  const startTime = performance.now();
+  const n = distanceMatrix.length;
+  const d = distanceMatrix;
+  const steps: AlgorithmStep[] = [];
+
+  // Moves never reverse path[0], so the tour keeps starting at the start node
+  const path = rotateToStart(randomTour(n), startNode);
+  let currentCost = calculatePathCost(path, d);
+  let bestPath = [...path];
+  let bestCost = currentCost;
+  const symmetric = isSymmetric(d);
+
+  steps.push({
+    description: "Start from a random tour",
+    visitedNodes: [...path],
+    currentPath: [...path],
+    cost: currentCost,
+    bestCost,
+    temperature: options.initialTemperature,
+    additionalInfo: `${options.iterations} iterations with ${options.coolingSchedule} cooling from T = ${options.initialTemperature}`
+  });
+
+  // Only every sampleInterval-th iteration is recorded as a step
+  const sampleInterval = Math.max(1, Math.ceil(options.iterations / options.sampleCount));
+  let accepted = 0;
+  let uphillAccepted = 0;
+
+  for (let iteration = 1; iteration <= options.iterations && n >= 4; iteration++) {
+    if (iteration % sampleInterval === 0) onProgress?.(iteration / options.iterations);
+    const temperature = temperatureAt(options, iteration);
+
+    // Random 2-opt move: reverse path[i+1..j]
+    const i = Math.floor(Math.random() * (n - 2));
+    const j = i + 2 + Math.floor(Math.random() * (n - i - 2 - (i === 0 ? 1 : 0)));
+
+    const a = path[i];
+    const b = path[i + 1];
+    const c = path[j];
+    const e = path[(j + 1) % n];
+    const delta = d[a][c] + d[b][e] - d[a][b] - d[c][e]
+      + (symmetric ? 0 : reversalCostDelta(path, i + 1, j, d));
+
+    if (delta < 0 || (temperature > 0 && Math.random() < Math.exp(-delta / temperature))) {
+      reverseRange(path, i + 1, j);
+      currentCost += delta;
+      accepted++;
+      if (delta > 0) uphillAccepted++;
+
+      if (currentCost < bestCost - 1e-9) {
+        bestCost = currentCost;
+        bestPath = [...path];
+      }
+    }
+
+    if (iteration % sampleInterval === 0) {
+      steps.push({
+        description: `Iteration ${iteration}: T = ${temperature.toFixed(2)}`,
+        visitedNodes: [...path],
+        currentPath: [...path],
+        cost: currentCost,
+        bestCost,
+        temperature,
+        additionalInfo: `Accepted ${accepted} of the last ${sampleInterval} moves (${uphillAccepted} uphill). Best so far: ${bestCost.toFixed(2)}`
+      });
+      accepted = 0;
+      uphillAccepted = 0;
+    }
+  }
+
+  steps.push({
+    description: "Annealing finished: best tour found",
+    visitedNodes: [...bestPath],
+    currentPath: [...bestPath],
+    cost: bestCost,
+    bestCost,
+    temperature: temperatureAt(options, options.iterations),
+    additionalInfo: `Best tour cost after ${options.iterations} iterations: ${bestCost.toFixed(2)}`
+  });
+
+  const executionTime = performance.now() - startTime;
+  return { path: bestPath, cost: bestCost, executionTime, steps };
+}
+
+export type CrossoverOperator = 'ox' | 'pmx' | 'erx';
+
+export interface GeneticOptions {
+  populationSize: number;
+  generations: number;
+  mutationRate: number;
+  elitism: number;
+  crossover: CrossoverOperator;
+}
+
+export const DEFAULT_GENETIC_OPTIONS: GeneticOptions = {
+  populationSize: 50,
+  generations: 100,
+  mutationRate: 0.1,
+  elitism: 2,
+  crossover: 'ox'
+};
+
+const CROSSOVER_NAMES: Record<CrossoverOperator, string> = {
+  ox: 'order crossover (OX)',
+  pmx: 'partially mapped crossover (PMX)',
+  erx: 'edge recombination (ERX)'
+};
+
+// Genetic Algorithm - tournament selection, crossover, inversion mutation and elitism
+export function geneticTSP(
+  distanceMatrix: number[][],
+  options: GeneticOptions = DEFAULT_GENETIC_OPTIONS,
+  startNode = 0,
+  onProgress?: ProgressCallback
+): TSPResult {
+  const startTime = performance.now();
+  const n = distanceMatrix.length;
+  const steps: AlgorithmStep[] = [];
+  const crossover = CROSSOVERS[options.crossover];
+  const elitism = Math.min(options.elitism, options.populationSize);
+
+  const evaluate = (tour: number[]) => ({ tour, cost: calculatePathCost(tour, distanceMatrix) });
+  let population = Array.from({ length: options.populationSize }, () => evaluate(randomTour(n)));
+  population.sort((x, y) => x.cost - y.cost);
+
+  let best = population[0];
+  let bestGeneration = 0;
+
+  steps.push({
+    description: "Generation 0: random initial population",
+    visitedNodes: [...best.tour],
+    currentPath: [...best.tour],
+    cost: best.cost,
+    bestCost: best.cost,
+    additionalInfo: `${options.populationSize} random tours, breeding with ${CROSSOVER_NAMES[options.crossover]}`
+  });
+
+  const tournament = () => {
+    let winner = population[Math.floor(Math.random() * population.length)];
+    for (let k = 1; k < TOURNAMENT_SIZE; k++) {
+      const challenger = population[Math.floor(Math.random() * population.length)];
+      if (challenger.cost < winner.cost) winner = challenger;
+    }
+    return winner.tour;
+  };
+
+  for (let generation = 1; generation <= options.generations; generation++) {
+    onProgress?.(generation / options.generations);
+    // Elites survive unchanged, the rest of the population is bred from tournament winners
+    const next = population.slice(0, elitism);
+    let mutations = 0;
+
+    while (next.length < options.populationSize) {
+      const child = crossover(tournament(), tournament(), distanceMatrix);
+      if (Math.random() < options.mutationRate) {
+        invertRandomSegment(child);
+        mutations++;
+      }
+      next.push(evaluate(child));
+    }
+
+    population = next.sort((x, y) => x.cost - y.cost);
+    const generationBest = population[0];
+    const improved = generationBest.cost < best.cost - 1e-9;
+    if (improved) {
+      best = generationBest;
+      bestGeneration = generation;
+    }
+
+    const averageCost = population.reduce((sum, individual) => sum + individual.cost, 0) / population.length;
+    steps.push({
+      description: `Generation ${generation}: best individual ${improved ? '(new overall best)' : ''}`.trim(),
+      visitedNodes: [...generationBest.tour],
+      currentPath: [...generationBest.tour],
+      cost: generationBest.cost,
+      bestCost: best.cost,
+      additionalInfo: `Average cost ${averageCost.toFixed(2)}, ${mutations} mutation${mutations === 1 ? '' : 's'}. ` +
+        `Best so far ${best.cost.toFixed(2)} from generation ${bestGeneration}`
+    });
+  }
+
+  steps.push({
+    description: `Evolution finished: best tour from generation ${bestGeneration}`,
+    visitedNodes: [...best.tour],
+    currentPath: [...best.tour],
+    cost: best.cost,
+    bestCost: best.cost,
+    additionalInfo: `Best tour cost after ${options.generations} generations: ${best.cost.toFixed(2)}`
+  });
+
+  const executionTime = performance.now() - startTime;
+  return {
+    path: rotateToStart(best.tour, startNode),
+    cost: best.cost,
+    executionTime,
+    steps,
+    bestIteration: bestGeneration
+  };
+}
+
+const TOURNAMENT_SIZE = 3;
+
+type Crossover = (parent1: number[], parent2: number[], distanceMatrix: number[][]) => number[];
+
+const CROSSOVERS: Record<CrossoverOperator, Crossover> = {
+  ox: orderCrossover,
+  pmx: partiallyMappedCrossover,
+  erx: edgeRecombinationCrossover
+};
+
+// OX: copy a slice of parent1, fill the remaining positions in parent2's order
+function orderCrossover(parent1: number[], parent2: number[]): number[] {
+  const n = parent1.length;
+  const [from, to] = randomCut(n);
+  const child: number[] = new Array(n).fill(-1);
+  const used = new Set<number>();
+
+  for (let i = from; i <= to; i++) {
+    child[i] = parent1[i];
+    used.add(parent1[i]);
+  }
+
+  let pos = (to + 1) % n;
+  for (let k = 0; k < n; k++) {
+    const city = parent2[(to + 1 + k) % n];
+    if (used.has(city)) continue;
+    child[pos] = city;
+    pos = (pos + 1) % n;
+  }
+
+  return child;
+}
+
+// PMX: copy a slice of parent1, place parent2's cities via the slice's position mapping
+function partiallyMappedCrossover(parent1: number[], parent2: number[]): number[] {
+  const n = parent1.length;
+  const [from, to] = randomCut(n);
+  const child: number[] = new Array(n).fill(-1);
+  const positionInParent2 = new Array(n);
+  parent2.forEach((city, idx) => { positionInParent2[city] = idx; });
+
+  for (let i = from; i <= to; i++) {
+    child[i] = parent1[i];
+  }
+
+  for (let i = from; i <= to; i++) {
+    const city = parent2[i];
+    if (child.includes(city)) continue;
+
+    // Follow the mapping until we land outside the copied slice
+    let pos = i;
+    while (pos >= from && pos <= to) {
+      pos = positionInParent2[parent1[pos]];
+    }
+    child[pos] = city;
+  }
+
+  for (let i = 0; i < n; i++) {
+    if (child[i] === -1) child[i] = parent2[i];
+  }
+
+  return child;
+}
+
+// ERX: build the child from the union of both parents' edges, preferring cities with few
+// remaining neighbours (ties broken by distance)
+function edgeRecombinationCrossover(parent1: number[], parent2: number[], distanceMatrix: number[][]): number[] {
+  const n = parent1.length;
+  const neighbours: Array<Set<number>> = Array.from({ length: n }, () => new Set<number>());
+  for (const parent of [parent1, parent2]) {
+    for (let i = 0; i < n; i++) {
+      const city = parent[i];
+      neighbours[city].add(parent[(i + 1) % n]);
+      neighbours[city].add(parent[(i - 1 + n) % n]);
+    }
+  }
+
+  const child: number[] = [];
+  const used = new Set<number>();
+  let current = parent1[0];
+
+  while (child.length < n) {
+    child.push(current);
+    used.add(current);
+    neighbours.forEach(set => set.delete(current));
+    if (child.length === n) break;
+
+    let next = -1;
+    for (const candidate of neighbours[current]) {
+      if (
+        next === -1 ||
+        neighbours[candidate].size < neighbours[next].size ||
+        (neighbours[candidate].size === neighbours[next].size &&
+          distanceMatrix[current][candidate] < distanceMatrix[current][next])
+      ) {
+        next = candidate;
+      }
+    }
+
+    // Dead end: continue from the nearest unused city
+    if (next === -1) {
+      for (let city = 0; city < n; city++) {
+        if (!used.has(city) && (next === -1 || distanceMatrix[current][city] < distanceMatrix[current][next])) {
+          next = city;
+        }
+      }
+    }
+
+    current = next;
+  }
+
+  return child;
+}
+
+export type AntColonyVariant = 'as' | 'mmas';
+
+export interface AntColonyOptions {
+  variant: AntColonyVariant;
+  ants: number;
+  iterations: number;
+  alpha: number;
+  beta: number;
+  evaporation: number;
+}
+
+export const DEFAULT_ANT_COLONY_OPTIONS: AntColonyOptions = {
+  variant: 'mmas',
+  ants: 20,
+  iterations: 50,
+  alpha: 1,
+  beta: 3,
+  evaporation: 0.1
+};
+
+// Ant Colony Optimization - Ant System or Max-Min Ant System over the distance matrix
+export function antColonyTSP(
+  distanceMatrix: number[][],
+  options: AntColonyOptions = DEFAULT_ANT_COLONY_OPTIONS,
+  startNode = 0,
+  onProgress?: ProgressCallback
+): TSPResult {
+  const startTime = performance.now();
+  const n = distanceMatrix.length;
+  const d = distanceMatrix;
+  const steps: AlgorithmStep[] = [];
+  const { variant, ants, alpha, beta, evaporation } = options;
+  const isMaxMin = variant === 'mmas';
+
+  // Pheromone bounds follow Stützle & Hoos, using the nearest neighbour tour as reference
+  const nearestNeighbourCost = greedyTSP(d).cost;
+  let tauMax = 1 / (evaporation * nearestNeighbourCost);
+  let tauMin = tauMax / (2 * n);
+  const initialPheromone = isMaxMin ? tauMax : ants / nearestNeighbourCost;
+  const pheromone: number[][] = Array(n).fill(0).map(() => Array(n).fill(initialPheromone));
+  const heuristic: number[][] = d.map(row => row.map(dist => 1 / (dist + 1e-10)));
+
+  let bestTour: number[] = [];
+  let bestCost = Infinity;
+  let bestIteration = 0;
+
+  steps.push({
+    description: `Initialize pheromone to ${initialPheromone.toExponential(2)} on every edge`,
+    visitedNodes: [],
+    currentPath: [],
+    edgeWeights: pheromoneWeights(pheromone),
+    additionalInfo: `${isMaxMin ? 'Max-Min Ant System' : 'Ant System'} with ${ants} ants, α = ${alpha}, β = ${beta}, ρ = ${evaporation}`
+  });
+
+  const constructTour = (): number[] => {
+    const start = Math.floor(Math.random() * n);
+    const tour = [start];
+    const visited = new Array(n).fill(false);
+    visited[start] = true;
+
+    while (tour.length < n) {
+      const current = tour[tour.length - 1];
+      const weights: number[] = [];
+      let total = 0;
+      for (let city = 0; city < n; city++) {
+        const weight = visited[city]
+          ? 0
+          : Math.pow(pheromone[current][city], alpha) * Math.pow(heuristic[current][city], beta);
+        weights.push(weight);
+        total += weight;
+      }
+
+      // Roulette wheel selection proportional to τ^α · η^β
+      let next = -1;
+      let threshold = Math.random() * total;
+      for (let city = 0; city < n; city++) {
+        if (visited[city]) continue;
+        next = city;
+        threshold -= weights[city];
+        if (threshold <= 0) break;
+      }
+
+      tour.push(next);
+      visited[next] = true;
+    }
+
+    return tour;
+  };
+
+  // On asymmetric instances an arc says nothing about its reverse, so only the direction travelled is reinforced
+  const symmetric = isSymmetric(d);
+  const deposit = (tour: number[], amount: number) => {
+    for (let i = 0; i < n; i++) {
+      const from = tour[i];
+      const to = tour[(i + 1) % n];
+      pheromone[from][to] += amount;
+      if (symmetric) pheromone[to][from] += amount;
+    }
+  };
+
+  for (let iteration = 1; iteration <= options.iterations; iteration++) {
+    onProgress?.(iteration / options.iterations);
+    const colony = Array.from({ length: ants }, () => {
+      const tour = constructTour();
+      return { tour, cost: calculatePathCost(tour, d) };
+    });
+    const iterationBest = colony.reduce((best, ant) => (ant.cost < best.cost ? ant : best));
+
+    if (iterationBest.cost < bestCost - 1e-9) {
+      bestTour = [...iterationBest.tour];
+      bestCost = iterationBest.cost;
+      bestIteration = iteration;
+      if (isMaxMin) {
+        tauMax = 1 / (evaporation * bestCost);
+        tauMin = tauMax / (2 * n);
+      }
+    }
+
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        pheromone[i][j] *= 1 - evaporation;
+      }
+    }
+
+    if (isMaxMin) {
+      // Only the iteration-best ant reinforces its tour, and trails stay within [τmin, τmax]
+      deposit(iterationBest.tour, 1 / iterationBest.cost);
+      for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+          pheromone[i][j] = Math.min(tauMax, Math.max(tauMin, pheromone[i][j]));
+        }
+      }
+    } else {
+      colony.forEach(ant => deposit(ant.tour, 1 / ant.cost));
+    }
+
+    steps.push({
+      description: `Iteration ${iteration}: best ant tour ${iterationBest.cost.toFixed(2)}`,
+      visitedNodes: [...iterationBest.tour],
+      currentPath: [...iterationBest.tour],
+      edgeWeights: pheromoneWeights(pheromone),
+      cost: iterationBest.cost,
+      bestCost,
+      additionalInfo: isMaxMin
+        ? `Iteration-best ant deposits 1/L on its edges; pheromone clamped to [${tauMin.toExponential(2)}, ${tauMax.toExponential(2)}]`
+        : `All ${ants} ants deposit 1/L on their edges after ${(evaporation * 100).toFixed(0)}% evaporation`
+    });
+  }
+
+  steps.push({
+    description: `Colony finished: best tour from iteration ${bestIteration}`,
+    visitedNodes: [...bestTour],
+    currentPath: [...bestTour],
+    edgeWeights: pheromoneWeights(pheromone),
+    cost: bestCost,
+    bestCost,
+    additionalInfo: `Best tour cost after ${options.iterations} iterations: ${bestCost.toFixed(2)}`
+  });
+
+  const executionTime = performance.now() - startTime;
+  return { path: rotateToStart(bestTour, startNode), cost: bestCost, executionTime, steps, bestIteration };
+}
+
+export interface TabuSearchOptions {
+  iterations: number;
+  // Iterations for which a removed edge may not be added back
+  tenure: number;
+  // Allow a tabu move when it beats the best tour found so far
+  aspiration: boolean;
+  sampleCount: number;
+}
+
+export const DEFAULT_TABU_SEARCH_OPTIONS: TabuSearchOptions = {
+  iterations: 1000,
+  tenure: 10,
+  aspiration: true,
+  sampleCount: 100
+};
+
+// Tabu edges listed in a step's description before the rest are only counted
+const MAX_LISTED_TABU_EDGES = 6;
+
+// Tabu Search - move to the best 2-opt neighbour every iteration, even uphill; edges a move
+// removes are tabu for `tenure` iterations so the search cannot fall straight back
+export function tabuSearchTSP(
+  distanceMatrix: number[][],
+  options: TabuSearchOptions = DEFAULT_TABU_SEARCH_OPTIONS,
+  startNode = 0,
+  onProgress?: ProgressCallback
+): TSPResult {
+  const startTime = performance.now();
+  const n = distanceMatrix.length;
+  const d = distanceMatrix;
+  const steps: AlgorithmStep[] = [];
+  const symmetric = isSymmetric(d);
+
+  const path = greedyTSP(d, startNode).path;
+  let currentCost = calculatePathCost(path, d);
+  let bestPath = [...path];
+  let bestCost = currentCost;
+  let bestIteration = 0;
+
+  // tabuUntil[i][j]: last iteration in which edge i–j may not be added back
+  const tabuUntil: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+  const isTabu = (i: number, j: number, iteration: number) => tabuUntil[i][j] >= iteration;
+  const activeTabu = (iteration: number) => {
+    const edges: Array<{ from: number; to: number }> = [];
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        if (isTabu(i, j, iteration)) edges.push({ from: i, to: j });
+      }
+    }
+    return edges;
+  };
+
+  steps.push({
+    description: "Start from the nearest neighbour tour",
+    visitedNodes: [...path],
+    currentPath: [...path],
+    cost: currentCost,
+    bestCost,
+    additionalInfo: `${options.iterations} iterations, tabu tenure ${options.tenure}, ` +
+      `aspiration ${options.aspiration ? 'on' : 'off'}`
+  });
+
+  // Only every sampleInterval-th iteration is recorded as a step
+  const sampleInterval = Math.max(1, Math.ceil(options.iterations / options.sampleCount));
+  let uphill = 0;
+  let aspirations = 0;
+
+  for (let iteration = 1; iteration <= options.iterations && n >= 4; iteration++) {
+    if (iteration % sampleInterval === 0) onProgress?.(iteration / options.iterations);
+    const reversal = symmetric ? undefined : reversalPrefix(path, d);
+
+    // Best admissible 2-opt move reversing path[i+1..j]; a tabu move only qualifies through aspiration
+    let best: { i: number; j: number; delta: number; tabu: boolean } | null = null;
+    let bestTabu: { i: number; j: number; delta: number; tabu: boolean } | null = null;
+    for (let i = 0; i < n - 2; i++) {
+      for (let j = i + 2; j < n; j++) {
+        if (i === 0 && j === n - 1) continue;
+        const a = path[i];
+        const b = path[i + 1];
+        const c = path[j];
+        const e = path[(j + 1) % n];
+        const delta = d[a][c] + d[b][e] - d[a][b] - d[c][e]
+          + (reversal ? reversal(i + 1, j) : 0);
+        const tabu = isTabu(a, c, iteration) || isTabu(b, e, iteration);
+
+        if (tabu && !(options.aspiration && currentCost + delta < bestCost - 1e-9)) {
+          if (!bestTabu || delta < bestTabu.delta) bestTabu = { i, j, delta, tabu };
+          continue;
+        }
+        if (!best || delta < best.delta) best = { i, j, delta, tabu };
+      }
+    }
+    // Every move is tabu: take the best one anyway rather than stall
+    const move = best ?? bestTabu!;
+
+    const { i, j, delta } = move;
+    const a = path[i];
+    const b = path[i + 1];
+    const c = path[j];
+    const e = path[(j + 1) % n];
+    reverseRange(path, i + 1, j);
+    currentCost += delta;
+    if (delta > 0) uphill++;
+    if (move.tabu) aspirations++;
+
+    for (const [from, to] of [[a, b], [c, e]]) {
+      tabuUntil[from][to] = iteration + options.tenure;
+      tabuUntil[to][from] = iteration + options.tenure;
+    }
+
+    const improved = currentCost < bestCost - 1e-9;
+    if (improved) {
+      bestCost = currentCost;
+      bestPath = [...path];
+      bestIteration = iteration;
+    }
+
+    if (iteration % sampleInterval === 0 || (improved && move.tabu)) {
+      const tabuEdges = activeTabu(iteration + 1);
+      const listed = tabuEdges.slice(0, MAX_LISTED_TABU_EDGES).map((edge) => `${edge.from}–${edge.to}`).join(', ');
+      steps.push({
+        description: `Iteration ${iteration}: replace ${a}–${b} and ${c}–${e} with ${a}–${c} and ${b}–${e}` +
+          (move.tabu ? ' (tabu, allowed by aspiration)' : ''),
+        visitedNodes: [...path],
+        currentPath: [...path],
+        removedEdges: [{ from: a, to: b }, { from: c, to: e }],
+        addedEdges: [{ from: a, to: c }, { from: b, to: e }],
+        exploringEdges: tabuEdges,
+        cost: currentCost,
+        costDelta: delta,
+        bestCost,
+        additionalInfo: `Tabu list: ${listed || 'empty'}` +
+          (tabuEdges.length > MAX_LISTED_TABU_EDGES ? ` and ${tabuEdges.length - MAX_LISTED_TABU_EDGES} more` : '') +
+          `. ${uphill} uphill move${uphill === 1 ? '' : 's'}, ${aspirations} aspiration${aspirations === 1 ? '' : 's'} so far`
+      });
+    }
+  }
+
+  steps.push({
+    description: `Tabu search finished: best tour from iteration ${bestIteration}`,
+    visitedNodes: [...bestPath],
+    currentPath: [...bestPath],
+    cost: bestCost,
+    bestCost,
+    additionalInfo: `Best tour cost after ${options.iterations} iterations: ${bestCost.toFixed(2)}`
+  });
+
+  const executionTime = performance.now() - startTime;
+  return { path: bestPath, cost: bestCost, executionTime, steps, bestIteration };
+}
+
+export interface IteratedLocalSearchOptions {
+  kicks: number;
+  sampleCount: number;
+}
+
+export const DEFAULT_ITERATED_LOCAL_SEARCH_OPTIONS: IteratedLocalSearchOptions = {
+  kicks: 200,
+  sampleCount: 50
+};
+
+// Iterated Local Search - perturb the current local optimum with a random double-bridge kick,
+// descend with 2-opt, and keep the result when it is shorter
+export function iteratedLocalSearchTSP(
+  distanceMatrix: number[][],
+  options: IteratedLocalSearchOptions = DEFAULT_ITERATED_LOCAL_SEARCH_OPTIONS,
+  startNode = 0,
+  onProgress?: ProgressCallback
+): TSPResult {
+  const startTime = performance.now();
+  const n = distanceMatrix.length;
+  const d = distanceMatrix;
+  const steps: AlgorithmStep[] = [];
+  const symmetric = isSymmetric(d);
+
+  let current = greedyTSP(d, startNode).path;
+  let currentCost = twoOptDescent(current, d, symmetric);
+  let bestIteration = 0;
+
+  steps.push({
+    description: "Start from the nearest neighbour tour improved by 2-opt",
+    visitedNodes: [...current],
+    currentPath: [...current],
+    cost: currentCost,
+    bestCost: currentCost,
+    additionalInfo: `${options.kicks} double-bridge kicks, each followed by 2-opt`
+  });
+
+  // Only every sampleInterval-th kick is recorded as a pair of steps
+  const sampleInterval = Math.max(1, Math.ceil(options.kicks / options.sampleCount));
+  let accepted = 0;
+
+  // A double bridge needs four non-empty segments
+  for (let kick = 1; kick <= options.kicks && n >= 4; kick++) {
+    if (kick % sampleInterval === 0) onProgress?.(kick / options.kicks);
+
+    // Cut the tour into A B C D and reconnect it as A C B D; position 0 stays the start
+    const [p1, p2, p3] = randomCutPoints(n);
+    const kicked = [...current.slice(0, p1), ...current.slice(p2, p3), ...current.slice(p1, p2), ...current.slice(p3)];
+    const kickedCost = calculatePathCost(kicked, d);
+    const candidate = [...kicked];
+    const candidateCost = twoOptDescent(candidate, d, symmetric);
+    const improved = candidateCost < currentCost - 1e-9;
+
+    if (kick % sampleInterval === 0 || improved) {
+      const prev = (index: number) => current[index - 1];
+      steps.push({
+        description: `Kick ${kick}: double bridge at positions ${p1}, ${p2} and ${p3}`,
+        visitedNodes: [...kicked],
+        currentPath: [...kicked],
+        removedEdges: [
+          { from: prev(p1), to: current[p1] },
+          { from: prev(p2), to: current[p2] },
+          { from: prev(p3), to: current[p3] }
+        ],
+        addedEdges: [
+          { from: prev(p1), to: current[p2] },
+          { from: prev(p3), to: current[p1] },
+          { from: prev(p2), to: current[p3] }
+        ],
+        cost: kickedCost,
+        bestCost: currentCost,
+        additionalInfo: `The kick costs ${(kickedCost - currentCost).toFixed(2)}; 2-opt alone cannot undo it`
+      });
+    }
+
+    if (improved) {
+      current = candidate;
+      currentCost = candidateCost;
+      bestIteration = kick;
+      accepted++;
+    }
+
+    if (kick % sampleInterval === 0 || improved) {
+      steps.push({
+        description: `Kick ${kick}: 2-opt reaches ${candidateCost.toFixed(2)}, ${improved ? 'accepted' : 'rejected'}`,
+        visitedNodes: [...candidate],
+        currentPath: [...candidate],
+        cost: candidateCost,
+        costDelta: candidateCost - kickedCost,
+        bestCost: currentCost,
+        additionalInfo: improved
+          ? `New best tour. ${accepted} of ${kick} kicks accepted so far`
+          : `Not shorter than the current tour, which stays at ${currentCost.toFixed(2)}`
+      });
+    }
+  }
+
+  steps.push({
+    description: `Iterated local search finished: best tour from kick ${bestIteration}`,
+    visitedNodes: [...current],
+    currentPath: [...current],
+    cost: currentCost,
+    bestCost: currentCost,
+    additionalInfo: `Best tour cost after ${options.kicks} kicks: ${currentCost.toFixed(2)}`
+  });
+
+  const executionTime = performance.now() - startTime;
+  return { path: current, cost: currentCost, executionTime, steps, bestIteration };
+}
+
+// Three increasing cut points in [1, n), leaving four non-empty segments
+function randomCutPoints(n: number): [number, number, number] {
+  const cuts = new Set<number>();
+  while (cuts.size < 3) cuts.add(1 + Math.floor(Math.random() * (n - 1)));
+  const [p1, p2, p3] = [...cuts].sort((a, b) => a - b);
+  return [p1, p2, p3];
+}
+
+// First-improvement 2-opt on `path` in place, keeping path[0]; returns the final cost
+function twoOptDescent(path: number[], distanceMatrix: number[][], symmetric: boolean): number {
+  const n = path.length;
+  const d = distanceMatrix;
+  let cost = calculatePathCost(path, d);
+  let reversal = symmetric ? undefined : reversalPrefix(path, d);
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < n - 2; i++) {
+      for (let j = i + 2; j < n; j++) {
+        if (i === 0 && j === n - 1) continue;
+        const a = path[i];
+        const b = path[i + 1];
+        const c = path[j];
+        const e = path[(j + 1) % n];
+        const delta = d[a][c] + d[b][e] - d[a][b] - d[c][e]
+          + (reversal ? reversal(i + 1, j) : 0);
+        if (delta < -1e-9) {
+          reverseRange(path, i + 1, j);
+          cost += delta;
+          improved = true;
+          if (!symmetric) reversal = reversalPrefix(path, d);
+        }
+      }
+    }
+  }
+  return cost;
+}
+
+// Cost change from driving path[from..to] backwards, in O(1) per query after O(n) set-up;
+// the same quantity as reversalCostDelta
+function reversalPrefix(path: number[], distanceMatrix: number[][]): (from: number, to: number) => number {
+  const prefix = new Array(path.length).fill(0);
+  for (let k = 1; k < path.length; k++) {
+    const a = path[k - 1];
+    const b = path[k];
+    prefix[k] = prefix[k - 1] + distanceMatrix[b][a] - distanceMatrix[a][b];
+  }
+  return (from, to) => prefix[to] - prefix[from];
+}
+
+// Pheromone trails scaled to [0, 1] relative to the strongest trail
+function pheromoneWeights(pheromone: number[][]): Array<{ from: number; to: number; weight: number }> {
+  const n = pheromone.length;
+  // Each edge shows its stronger direction; the two only differ on asymmetric instances
+  const level = (i: number, j: number) => Math.max(pheromone[i][j], pheromone[j][i]);
+  let max = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      max = Math.max(max, level(i, j));
+    }
+  }
+
+  const weights: Array<{ from: number; to: number; weight: number }> = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      weights.push({ from: i, to: j, weight: max > 0 ? level(i, j) / max : 0 });
+    }
+  }
+  return weights;
+}
+
+function randomCut(n: number): [number, number] {
+  const a = Math.floor(Math.random() * n);
+  const b = Math.floor(Math.random() * n);
+  return a <= b ? [a, b] : [b, a];
+}
+
+function invertRandomSegment(tour: number[]): void {
+  const [from, to] = randomCut(tour.length);
+  reverseRange(tour, from, to);
+}
+
+function randomTour(n: number): number[] {
+  const tour = Array.from({ length: n }, (_, i) => i);
+  for (let i = n - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [tour[i], tour[j]] = [tour[j], tour[i]];
+  }
+  return tour;
+}
+
+function reverseRange(path: number[], from: number, to: number): void {
+  while (from < to) {
+    [path[from], path[to]] = [path[to], path[from]];
+    from++;
+    to--;
+  }
+}
@@ -0,0 +1,220 @@
+import { calculatePathCost, isSymmetric, Point } from './graph-generator';
+import { AlgorithmStep, MultiStartResult, TSPResult, rotateToStart } from './tsp-algorithms';
+import { computeSchedule, hasTimeWindows } from './time-windows';
+import { describePrecedence, violatedPrecedences, PrecedenceConstraint } from './precedence';
+
+// A closed tour, or a one-way route: free ends, a fixed start, or a fixed start and end
+export type PathVariant = 'tour' | 'path' | 'fixedstart' | 'fixedends';
+
+// The tour instance the solvers actually see
+export interface TourReduction {
+  points: Point[];
+  distanceMatrix: number[][];
+  startNode: number;
+  // Ends the path has to keep; paths that lose them are rotated or repaired
+  fixedStart?: number;
+  endNode?: number;
+  // City appended for open paths; the tour is cut there
+  dummy?: number;
+  // Constant every correctly cut tour pays on the dummy's edges on top of the path cost
+  offset: number;
+  // Tours may pass the dummy in either direction: symmetric costs, and a solver that ignores direction
+  symmetric: boolean;
+}
+
+export function isOpenPath(variant: PathVariant): boolean {
+  return variant !== 'tour';
+}
+
+// A path that has to end where it starts is a tour
+export function effectiveVariant(variant: PathVariant, startNode: number, endNode: number): PathVariant {
+  return variant === 'fixedends' && endNode === startNode ? 'tour' : variant;
+}
+
+// Reduces a Hamiltonian path problem to a tour so every solver handles it unchanged. A dummy
+// city is the tour's start and closes the path: its edge to the fixed start costs 0, and its
+// edges to the cities that cannot be ends cost more than any path, so they are never worth
+// using. Symmetric instances stay symmetric: the edge from the end back to the dummy costs a
+// penalty M that every correctly shaped tour pays once, so the optimum does not move.
+// Asymmetric instances price the two directions separately instead, and so do directed
+// solvers, whose routes only mean something in the order they were built.
+export function reduceToTour(
+  points: Point[],
+  distanceMatrix: number[][],
+  startNode: number,
+  variant: PathVariant,
+  endNode: number,
+  directed = false
+): TourReduction {
+  const n = distanceMatrix.length;
+  const kind = effectiveVariant(variant, startNode, endNode);
+  const symmetric = !directed && isSymmetric(distanceMatrix);
+  if (kind === 'tour') return { points, distanceMatrix, startNode, offset: 0, symmetric };
+
+  // No path uses more than each city's longest outgoing arc once
+  const penalty = 1 + distanceMatrix.reduce((sum, row) => sum + Math.max(...row), 0);
+  const fixedStart = kind === 'path' ? undefined : startNode;
+  const fixedEnd = kind === 'fixedends' ? endNode : undefined;
+
+  let toDummy: number[];
+  let fromDummy: number[];
+  let offset = 0;
+  if (kind === 'path') {
+    toDummy = new Array(n).fill(0);
+    fromDummy = toDummy;
+  } else if (symmetric) {
+    // The fixed start is free, the end pays M once, and a blocked end pays at least 2M
+    fromDummy = distanceMatrix.map((_, city) =>
+      city === fixedStart ? 0 : fixedEnd === undefined || city === fixedEnd ? penalty : 2 * penalty
+    );
+    toDummy = fromDummy;
+    offset = penalty;
+  } else {
+    // Directed: the dummy leads into the start, and only cities that may end the path lead back
+    fromDummy = distanceMatrix.map((_, city) => (city === fixedStart ? 0 : penalty));
+    toDummy = distanceMatrix.map((_, city) =>
+      (fixedEnd === undefined ? city !== fixedStart : city === fixedEnd) ? 0 : penalty
+    );
+  }
+
+  // The dummy sits next to the cities it joins so geometric heuristics see a sensible layout
+  const anchors = kind === 'path' ? points : [points[startNode], ...(fixedEnd === undefined ? [] : [points[fixedEnd]])];
+  const dummy: Point = {
+    id: n,
+    x: anchors.reduce((sum, point) => sum + point.x, 0) / Math.max(1, anchors.length),
+    y: anchors.reduce((sum, point) => sum + point.y, 0) / Math.max(1, anchors.length)
+  };
+
+  return {
+    points: [...points, dummy],
+    distanceMatrix: [...distanceMatrix.map((row, i) => [...row, toDummy[i]]), [...fromDummy, 0]],
+    startNode: n,
+    fixedStart,
+    endNode: fixedEnd,
+    dummy: n,
+    offset,
+    symmetric
+  };
+}
+
+// Opens a tour of the reduced instance into the path it stands for
+export function cutTour(tour: number[], reduction: TourReduction): number[] {
+  const { dummy, startNode, fixedStart, symmetric } = reduction;
+  const rotated = rotateToStart(tour, startNode);
+  // Some final steps repeat the start to show the closing edge
+  const open = rotated.length > 1 && rotated[rotated.length - 1] === rotated[0] ? rotated.slice(0, -1) : rotated;
+  // Walks such as Christofides' Euler circuit may pass the dummy more than once
+  const path = dummy === undefined ? open : open.filter((node) => node !== dummy);
+  if (fixedStart === undefined || path[0] === fixedStart || !path.includes(fixedStart)) return path;
+  // A symmetric tour may run from the dummy to the end first; otherwise the start is in the middle
+  return symmetric && path[path.length - 1] === fixedStart ? [...path].reverse() : rotateToStart(path, fixedStart);
+}
+
+// A cost on the reduced instance in terms of the path. Such a cost is a path cost plus a whole
+// number of penalties, so figures of at least M include one and smaller ones none.
+function withoutOffset(value: number, reduction: TourReduction): number {
+  return reduction.offset > 0 && value >= reduction.offset ? value - reduction.offset : value;
+}
+
+// A lower bound on the reduced instance in terms of the path; it may not have priced M at all
+export function boundWithoutOffset(value: number, reduction: TourReduction): number {
+  return reduction.offset > 0 ? Math.max(0, value - reduction.offset) : value;
+}
+
+// Maps a result on the reduced instance back to the original cities, with open-path costs
+export function restoreResult(
+  result: TSPResult,
+  reduction: TourReduction,
+  distanceMatrix: number[][],
+  precedences: PrecedenceConstraint[] = []
+): TSPResult {
+  const n = distanceMatrix.length;
+  const { dummy } = reduction;
+  const keep = (node: number) => node !== dummy;
+  const shift = <T extends number | undefined>(value: T): T =>
+    (value === undefined ? value : withoutOffset(value, reduction)) as T;
+  const shiftBound = (value: number) => boundWithoutOffset(value, reduction);
+  const keepEdge = (edge: { from: number; to: number }) => keep(edge.from) && keep(edge.to);
+  const openCost = (path: number[]) => calculatePathCost(path, distanceMatrix, false);
+
+  const steps = result.steps.map((step): AlgorithmStep => {
+    const currentPath = cutTour(step.currentPath, reduction);
+    return {
+      ...step,
+      currentNode: step.currentNode === dummy ? undefined : step.currentNode,
+      visitedNodes: step.visitedNodes.filter(keep),
+      currentPath,
+      exploringEdges: step.exploringEdges?.filter(keepEdge),
+      highlightEdge: step.highlightEdge && keepEdge(step.highlightEdge) ? step.highlightEdge : undefined,
+      removedEdges: step.removedEdges?.filter(keepEdge),
+      addedEdges: step.addedEdges?.filter(keepEdge),
+      edgeWeights: step.edgeWeights?.filter(keepEdge),
+      // Complete paths are re-costed; search tree steps show the bound of their subproblem
+      cost: currentPath.length === n
+        ? openCost(currentPath)
+        : step.treeNodeId !== undefined && step.cost !== undefined ? shiftBound(step.cost) : shift(step.cost),
+      bestCost: shift(step.bestCost)
+    };
+  });
+
+  let path = cutTour(result.path, reduction);
+  const { endNode, points } = reduction;
+  // Heuristics that never price the closing edge, such as the multi-start runs or the space-filling
+  // curve, can stop elsewhere. Their path is repaired by moving the fixed end last, which may make
+  // arrivals late or break constraints the solver had kept, so the step re-checks both.
+  if (endNode !== undefined && path.length === n && path[n - 1] !== endNode) {
+    const stoppedAt = path[n - 1];
+    path = [...path.filter((node) => node !== endNode), endNode];
+    const late = hasTimeWindows(points) ? computeSchedule(path, points, distanceMatrix, false).lateNodes : [];
+    const broken = violatedPrecedences(path, precedences);
+    const checks = [
+      late.length > 0 && `Late at ${late.join(', ')}`,
+      broken.length > 0 && `Broken: ${broken.map(describePrecedence).join('; ')}`
+    ].filter(Boolean);
+    steps.push({
+      description: `Move the fixed end ${endNode} to the end of the path`,
+      currentNode: endNode,
+      visitedNodes: [...path],
+      currentPath: [...path],
+      addedEdges: [{ from: stoppedAt, to: endNode }],
+      cost: openCost(path),
+      additionalInfo: `The solver's path stopped at ${stoppedAt}` + (checks.length > 0 ? `. ${checks.join('. ')}` : '')
+    });
+  }
+
+  return {
+    ...result,
+    path,
+    cost: path.length === n ? openCost(path) : result.cost,
+    steps,
+    searchTree: result.searchTree?.map((node) => ({ ...node, lowerBound: shiftBound(node.lowerBound) })),
+    dpTable: result.dpTable
+      ?.filter((entry) => keep(entry.last))
+      .map((entry) => ({
+        ...entry,
+        subset: entry.subset.filter(keep),
+        path: entry.path.filter(keep),
+        cost: shift(entry.cost)
+      }))
+  };
+}
+
+// Drops the run that started at the dummy and ranks the remaining ones again
+export function restoreMultiStart(
+  multiStart: MultiStartResult,
+  reduction: TourReduction,
+  distanceMatrix: number[][],
+  precedences: PrecedenceConstraint[] = []
+): MultiStartResult {
+  const runs = multiStart.runs
+    .filter((_, start) => start !== reduction.dummy)
+    .map((run) => restoreResult(run, reduction, distanceMatrix, precedences));
+  const byCost = runs.map((_, start) => start).sort((a, b) => runs[a].cost - runs[b].cost);
+
+  return {
+    runs,
+    best: byCost[0],
+    worst: byCost[runs.length - 1],
+    median: byCost[Math.floor((runs.length - 1) / 2)]
+  };
+}
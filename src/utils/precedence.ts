@@ -0,0 +1,244 @@
+import { calculatePathCost } from './graph-generator';
+import { AlgorithmStep, TSPResult } from './tsp-algorithms';
+
+// An ordering rule, or a load that has to be picked up before it is delivered
+export type PrecedenceKind = 'order' | 'pickup';
+
+// `before` has to be visited earlier in the tour than `after`
+export interface PrecedenceConstraint {
+  before: number;
+  after: number;
+  kind: PrecedenceKind;
+}
+
+// Rejected moves are shown as steps up to this many; the rest are only counted
+const MAX_REJECTION_STEPS = 25;
+
+const EPSILON = 1e-9;
+
+// Constraints broken by a (partial) tour; cities the tour does not contain yet are skipped
+export function violatedPrecedences(path: number[], constraints: PrecedenceConstraint[]): PrecedenceConstraint[] {
+  const position = new Map(path.map((node, index) => [node, index]));
+  return constraints.filter((c) => {
+    const before = position.get(c.before);
+    const after = position.get(c.after);
+    return before !== undefined && after !== undefined && before > after;
+  });
+}
+
+export function describePrecedence(constraint: PrecedenceConstraint): string {
+  return constraint.kind === 'pickup'
+    ? `delivery ${constraint.after} needs its pickup ${constraint.before} first`
+    : `${constraint.before} must come before ${constraint.after}`;
+}
+
+// Why a new constraint cannot be added, or undefined when it can. Tours start at the start node,
+// so nothing can be required before it; pass no start node when the solvers choose the start.
+// Likewise a fixed end is visited last, so it cannot be required before anything.
+export function precedenceConflict(
+  constraints: PrecedenceConstraint[],
+  candidate: PrecedenceConstraint,
+  startNode?: number,
+  endNode?: number
+): string | undefined {
+  const { before, after, kind } = candidate;
+  if (before === after) return 'A city cannot come before itself';
+  if (after === startNode) return `The start node ${startNode} is always visited first`;
+  if (before === endNode) return `The end node ${endNode} is always visited last`;
+  if (constraints.some((c) => c.before === before && c.after === after)) return `${before} → ${after} already exists`;
+  if (kind === 'pickup') {
+    const paired = constraints.find((c) => c.kind === 'pickup' && [c.before, c.after].some((node) => node === before || node === after));
+    if (paired) return `City ${[before, after].find((node) => node === paired.before || node === paired.after)} is already in a pickup/delivery pair`;
+  }
+  if (precedes(constraints, after, before)) return `${after} already has to come before ${before}`;
+  return undefined;
+}
+
+// Whether the constraints force `from` before `to`, directly or through other cities
+function precedes(constraints: PrecedenceConstraint[], from: number, to: number): boolean {
+  const seen = new Set([from]);
+  const stack = [from];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    for (const c of constraints) {
+      if (c.before !== node || seen.has(c.after)) continue;
+      if (c.after === to) return true;
+      seen.add(c.after);
+      stack.push(c.after);
+    }
+  }
+  return false;
+}
+
+// Precedence-Constrained Insertion - cheapest insertion over the cities whose required
+// predecessors are already placed, then relocations and 2-opt moves that keep every constraint.
+// A lastNode, if given, stays behind every other city.
+export function precedenceTSP(
+  distanceMatrix: number[][],
+  constraints: PrecedenceConstraint[],
+  startNode = 0,
+  lastNode?: number
+): TSPResult {
+  const startTime = performance.now();
+  const d = distanceMatrix;
+  const n = d.length;
+  const steps: AlgorithmStep[] = [];
+  const predecessors = Array.from({ length: n }, () => [] as number[]);
+  constraints.forEach((c) => predecessors[c.after].push(c.before));
+  // The last city becomes available once everything else is placed, and then only at the end
+  if (lastNode !== undefined) {
+    predecessors[lastNode] = Array.from({ length: n }, (_, i) => i).filter((node) => node !== lastNode);
+  }
+
+  let tour = [startNode];
+  steps.push({
+    description: `Start at city ${startNode}`,
+    currentNode: startNode,
+    visitedNodes: [startNode],
+    currentPath: [startNode],
+    cost: 0,
+    additionalInfo: `${constraints.length} precedence constraint${constraints.length === 1 ? '' : 's'}. ` +
+      "A city becomes available once every city it must follow is in the tour"
+  });
+
+  while (tour.length < n) {
+    const remaining = Array.from({ length: n }, (_, i) => i).filter((node) => !tour.includes(node));
+    let available = remaining.filter((node) => predecessors[node].every((p) => tour.includes(p)));
+    // Only a constraint on the start node or the last city can leave nothing available; place the rest regardless
+    if (available.length === 0) available = remaining;
+
+    let best: { city: number; position: number; delta: number; blocked: number } | null = null;
+    for (const city of available) {
+      // Positions before the last placed predecessor would break a constraint
+      const earliest = 1 + Math.max(0, ...predecessors[city].map((p) => tour.indexOf(p)));
+      for (let position = earliest; position <= tour.length; position++) {
+        const prev = tour[position - 1];
+        const next = tour[position % tour.length];
+        const delta = d[prev][city] + d[city][next] - (tour.length > 1 ? d[prev][next] : 0);
+        if (!best || delta < best.delta) best = { city, position, delta, blocked: earliest - 1 };
+      }
+    }
+
+    const { city, position, blocked } = best!;
+    const prev = tour[position - 1];
+    const next = tour[position % tour.length];
+    tour = [...tour.slice(0, position), city, ...tour.slice(position)];
+    const placed = predecessors[city].filter((p) => tour.includes(p));
+
+    steps.push({
+      description: `Insert city ${city} between ${prev} and ${next}`,
+      currentNode: city,
+      visitedNodes: [...tour],
+      currentPath: [...tour],
+      removedEdges: tour.length > 2 ? [{ from: prev, to: next }] : [],
+      addedEdges: [{ from: prev, to: city }, { from: city, to: next }],
+      cost: calculatePathCost(tour, d),
+      additionalInfo: city === lastNode
+        ? 'The last city waits until every other city is in the tour'
+        : blocked > 0 && placed.length > 0
+        ? `${blocked} earlier position${blocked === 1 ? ' is' : 's are'} blocked: ${placed.join(', ')} must come first`
+        : `${available.length} cit${available.length === 1 ? 'y was' : 'ies were'} available; this insertion adds the least cost`
+    });
+  }
+
+  let cost = calculatePathCost(tour, d);
+  let moves = 0;
+  let rejected = 0;
+  const reportedRejections = new Set<string>();
+
+  // Records an improving move that would break a constraint, once per distinct move
+  const reject = (candidate: number[], description: string, proposedEdges: Array<{ from: number; to: number }>, violation: PrecedenceConstraint) => {
+    rejected++;
+    const key = candidate.join(',');
+    if (reportedRejections.has(key) || reportedRejections.size >= MAX_REJECTION_STEPS) return;
+    reportedRejections.add(key);
+    steps.push({
+      description: `Reject: ${description}`,
+      visitedNodes: [...tour],
+      currentPath: [...tour],
+      exploringEdges: proposedEdges,
+      highlightEdge: { from: violation.after, to: violation.before },
+      cost,
+      additionalInfo: `It would save ${(cost - calculatePathCost(candidate, d)).toFixed(2)}`,
+      rejectedReason: `City ${violation.after} would come before ${violation.before}: ${describePrecedence(violation)}`
+    });
+  };
+
+  // Applies the first improving move that keeps every constraint; improving moves that don't are rejected
+  const tryMove = (candidate: number[], description: string, proposedEdges: Array<{ from: number; to: number }>): boolean => {
+    if (lastNode !== undefined && candidate[n - 1] !== lastNode) return false;
+    const candidateCost = calculatePathCost(candidate, d);
+    if (candidateCost >= cost - EPSILON) return false;
+    // Constraints the current tour already breaks (only possible around the start node) don't count
+    const alreadyBroken = violatedPrecedences(tour, constraints);
+    const broken = violatedPrecedences(candidate, constraints).filter((c) => !alreadyBroken.includes(c));
+    if (broken.length > 0) {
+      reject(candidate, description, proposedEdges, broken[0]);
+      return false;
+    }
+
+    const costDelta = candidateCost - cost;
+    tour = candidate;
+    cost = candidateCost;
+    moves++;
+    steps.push({
+      description: `Move ${moves}: ${description}`,
+      visitedNodes: [...tour],
+      currentPath: [...tour],
+      addedEdges: proposedEdges,
+      cost,
+      costDelta,
+      additionalInfo: "Every precedence constraint still holds"
+    });
+    return true;
+  };
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+
+    // Or-opt: move a segment of 1 to 3 cities elsewhere; position 0 stays the start
+    for (let segLength = 1; segLength <= 3 && !improved; segLength++) {
+      for (let i = 1; i + segLength <= n && !improved; i++) {
+        const segment = tour.slice(i, i + segLength);
+        const rest = [...tour.slice(0, i), ...tour.slice(i + segLength)];
+        for (let j = 1; j <= rest.length && !improved; j++) {
+          if (j === i) continue;
+          const candidate = [...rest.slice(0, j), ...segment, ...rest.slice(j)];
+          improved = tryMove(
+            candidate,
+            `relocate [${segment.join(', ')}] after city ${rest[j - 1]}`,
+            [{ from: rest[j - 1], to: segment[0] }, { from: segment[segLength - 1], to: rest[j % rest.length] }]
+          );
+        }
+      }
+    }
+
+    // 2-opt: reverse tour[i..k]; reversing a segment flips the order of every city inside it
+    for (let i = 1; i < n - 1 && !improved; i++) {
+      for (let k = i + 1; k < n && !improved; k++) {
+        const candidate = [...tour.slice(0, i), ...tour.slice(i, k + 1).reverse(), ...tour.slice(k + 1)];
+        improved = tryMove(
+          candidate,
+          `reverse the path from ${tour[i]} to ${tour[k]}`,
+          [{ from: tour[i - 1], to: tour[k] }, { from: tour[i], to: tour[(k + 1) % n] }]
+        );
+      }
+    }
+  }
+
+  const violations = violatedPrecedences(tour, constraints);
+  steps.push({
+    description: violations.length === 0
+      ? `All ${constraints.length} precedence constraint${constraints.length === 1 ? '' : 's'} hold`
+      : `${violations.length} constraint${violations.length === 1 ? ' is' : 's are'} violated`,
+    visitedNodes: [...tour],
+    currentPath: [...tour],
+    cost,
+    additionalInfo: `${moves} improving move${moves === 1 ? '' : 's'} kept, ${rejected} rejected for breaking precedence` +
+      (violations.length > 0 ? `. ${violations.map(describePrecedence).join('; ')}` : '')
+  });
+
+  const executionTime = performance.now() - startTime;
+  return { path: tour, cost, executionTime, steps };
+}
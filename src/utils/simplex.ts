@@ -0,0 +1,184 @@
+// Dense two-phase primal simplex for small linear programs: minimise c·x subject to linear
+// constraints and x ≥ 0. Dantzig pricing, switching to Bland's rule on long degenerate runs
+// so that the highly degenerate LPs of combinatorial problems cannot cycle.
+
+export type ConstraintSense = '<=' | '=' | '>=';
+
+export interface LinearConstraint {
+  // Sparse row: [variable index, coefficient] pairs
+  terms: Array<[number, number]>;
+  sense: ConstraintSense;
+  rhs: number;
+}
+
+export interface LinearProgram {
+  variableCount: number;
+  objective: number[];
+  constraints: LinearConstraint[];
+}
+
+export type LinearProgramStatus = 'optimal' | 'infeasible' | 'unbounded';
+
+export interface LinearProgramSolution {
+  status: LinearProgramStatus;
+  values: number[];
+  objective: number;
+  pivots: number;
+}
+
+const EPSILON = 1e-9;
+// Degenerate pivots in a row before pricing falls back to Bland's rule
+const DEGENERATE_RUN_LIMIT = 50;
+const MAX_PIVOTS = 100000;
+
+export function solveLinearProgram(program: LinearProgram): LinearProgramSolution {
+  const { variableCount, objective, constraints } = program;
+  const m = constraints.length;
+
+  // Column layout: original variables, then one slack or surplus per inequality, then artificials
+  const slackCount = constraints.filter((c) => c.sense !== '=').length;
+  const rows = constraints.map((constraint) => {
+    // Keep every right-hand side non-negative so the starting basis is feasible for phase 1
+    const flip = constraint.rhs < 0;
+    const sense: ConstraintSense = !flip || constraint.sense === '=' ? constraint.sense : constraint.sense === '<=' ? '>=' : '<=';
+    return { constraint, flip, sense };
+  });
+  const artificialCount = rows.filter((row) => row.sense !== '<=').length;
+  const width = variableCount + slackCount + artificialCount;
+  const rhs = width;
+
+  const tableau = rows.map(() => new Float64Array(width + 1));
+  const basis = new Array<number>(m);
+  let slack = variableCount;
+  let artificial = variableCount + slackCount;
+
+  rows.forEach(({ constraint, flip, sense }, r) => {
+    const sign = flip ? -1 : 1;
+    for (const [variable, coefficient] of constraint.terms) tableau[r][variable] += sign * coefficient;
+    tableau[r][rhs] = sign * constraint.rhs;
+    if (sense === '<=') {
+      tableau[r][slack] = 1;
+      basis[r] = slack++;
+    } else {
+      if (sense === '>=') tableau[r][slack++] = -1;
+      tableau[r][artificial] = 1;
+      basis[r] = artificial++;
+    }
+  });
+
+  const firstArtificial = variableCount + slackCount;
+  let pivots = 0;
+
+  // Reduced costs of the current phase, kept up to date by every pivot
+  let reduced = new Float64Array(width + 1);
+
+  const pivot = (row: number, column: number) => {
+    const pivotRow = tableau[row];
+    const factor = pivotRow[column];
+    // Only the non-zero entries of the pivot row change other rows
+    const nonZero: number[] = [];
+    for (let j = 0; j <= width; j++) {
+      pivotRow[j] /= factor;
+      if (pivotRow[j] !== 0) nonZero.push(j);
+    }
+    const eliminate = (target: Float64Array) => {
+      const multiplier = target[column];
+      if (Math.abs(multiplier) < EPSILON) return;
+      for (const j of nonZero) target[j] -= multiplier * pivotRow[j];
+      target[column] = 0;
+    };
+    for (let r = 0; r < m; r++) {
+      if (r !== row) eliminate(tableau[r]);
+    }
+    eliminate(reduced);
+    basis[row] = column;
+    pivots++;
+  };
+
+  // Runs simplex iterations for the given costs over columns below `columnLimit`
+  const optimise = (costs: Float64Array, columnLimit: number): 'optimal' | 'unbounded' => {
+    // d_j = c_j - c_B · column j
+    reduced = new Float64Array(width + 1);
+    reduced.set(costs);
+    for (let r = 0; r < m; r++) {
+      const cost = costs[basis[r]];
+      if (cost === 0) continue;
+      const row = tableau[r];
+      for (let j = 0; j <= width; j++) reduced[j] -= cost * row[j];
+    }
+
+    let degenerateRun = 0;
+    for (;;) {
+      if (pivots >= MAX_PIVOTS) throw new Error('Simplex pivot limit reached');
+
+      const bland = degenerateRun >= DEGENERATE_RUN_LIMIT;
+      let entering = -1;
+      for (let j = 0; j < columnLimit; j++) {
+        if (reduced[j] >= -EPSILON) continue;
+        if (bland) {
+          entering = j;
+          break;
+        }
+        if (entering === -1 || reduced[j] < reduced[entering]) entering = j;
+      }
+      if (entering === -1) return 'optimal';
+
+      let leaving = -1;
+      let bestRatio = Infinity;
+      for (let r = 0; r < m; r++) {
+        const coefficient = tableau[r][entering];
+        if (coefficient <= EPSILON) continue;
+        const ratio = tableau[r][rhs] / coefficient;
+        if (ratio < bestRatio - EPSILON || (Math.abs(ratio - bestRatio) <= EPSILON && basis[r] < basis[leaving])) {
+          bestRatio = ratio;
+          leaving = r;
+        }
+      }
+      if (leaving === -1) return 'unbounded';
+
+      degenerateRun = bestRatio <= EPSILON ? degenerateRun + 1 : 0;
+      pivot(leaving, entering);
+    }
+  };
+
+  // Phase 1: minimise the sum of the artificials to find a feasible basis
+  if (artificialCount > 0) {
+    const phaseOne = new Float64Array(width);
+    for (let j = firstArtificial; j < width; j++) phaseOne[j] = 1;
+    optimise(phaseOne, width);
+
+    const infeasibility = basis.reduce((sum, column, r) => sum + (column >= firstArtificial ? tableau[r][rhs] : 0), 0);
+    if (infeasibility > 1e-7) {
+      return { status: 'infeasible', values: new Array(variableCount).fill(0), objective: Infinity, pivots };
+    }
+
+    // Pivot artificials still in the basis at zero out of it; rows where that fails are redundant
+    for (let r = 0; r < m; r++) {
+      if (basis[r] < firstArtificial) continue;
+      for (let j = 0; j < firstArtificial; j++) {
+        if (Math.abs(tableau[r][j]) > 1e-7) {
+          pivot(r, j);
+          break;
+        }
+      }
+    }
+  }
+
+  // Phase 2: the real objective; artificial columns may no longer enter
+  const phaseTwo = new Float64Array(width);
+  for (let j = 0; j < variableCount; j++) phaseTwo[j] = objective[j];
+  if (optimise(phaseTwo, firstArtificial) === 'unbounded') {
+    return { status: 'unbounded', values: new Array(variableCount).fill(0), objective: -Infinity, pivots };
+  }
+
+  const values = new Array(variableCount).fill(0);
+  basis.forEach((column, r) => {
+    if (column < variableCount) values[column] = tableau[r][rhs];
+  });
+  return {
+    status: 'optimal',
+    values,
+    objective: values.reduce((sum, value, j) => sum + value * objective[j], 0),
+    pivots
+  };
+}
@@ -0,0 +1,116 @@
+import { AlgorithmId, SolverInput, SolverOutput } from './solvers';
+
+// Messages posted to a solver worker
+export interface WorkerRequest {
+  type: 'run';
+  algorithm: AlgorithmId;
+  input: SolverInput;
+}
+
+// Messages posted back by a solver worker
+export type WorkerResponse =
+  | { type: 'progress'; algorithm: AlgorithmId; fraction: number }
+  | { type: 'result'; algorithm: AlgorithmId; output: SolverOutput }
+  | { type: 'error'; algorithm: AlgorithmId; message: string };
+
+export interface SolverPoolHandlers {
+  onStart: (algorithm: AlgorithmId) => void;
+  onProgress: (algorithm: AlgorithmId, fraction: number) => void;
+  onResult: (algorithm: AlgorithmId, output: SolverOutput) => void;
+  onError: (algorithm: AlgorithmId, message: string) => void;
+  // Called once every job has produced a result or an error, but not after cancel()
+  onDone: () => void;
+}
+
+export interface SolverPool {
+  run: (algorithms: AlgorithmId[], input: SolverInput, handlers: SolverPoolHandlers) => void;
+  cancel: () => void;
+}
+
+// Leave one core for the page itself
+const DEFAULT_POOL_SIZE = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+export function createSolverPool(size = DEFAULT_POOL_SIZE): SolverPool {
+  let workers: Worker[] = [];
+
+  // Terminating a worker stops a solver mid-run, so cancellation never waits for it
+  const cancel = () => {
+    workers.forEach((worker) => worker.terminate());
+    workers = [];
+  };
+
+  const run = (algorithms: AlgorithmId[], input: SolverInput, handlers: SolverPoolHandlers) => {
+    cancel();
+
+    const queue = [...algorithms];
+    let pending = algorithms.length;
+    if (pending === 0) {
+      handlers.onDone();
+      return;
+    }
+
+    const current = new Map<Worker, AlgorithmId>();
+
+    const startNext = (worker: Worker) => {
+      const algorithm = queue.shift();
+      if (!algorithm) return;
+      current.set(worker, algorithm);
+      handlers.onStart(algorithm);
+      const request: WorkerRequest = { type: 'run', algorithm, input };
+      worker.postMessage(request);
+    };
+
+    const finishJob = (worker: Worker) => {
+      pending--;
+      if (pending === 0) {
+        cancel();
+        handlers.onDone();
+      } else {
+        startNext(worker);
+      }
+    };
+
+    const spawn = (): Worker => {
+      const worker = new Worker(new URL('./solver.worker.ts', import.meta.url), { type: 'module' });
+
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const message = event.data;
+        switch (message.type) {
+          case 'progress':
+            handlers.onProgress(message.algorithm, message.fraction);
+            break;
+          case 'result':
+            handlers.onResult(message.algorithm, message.output);
+            finishJob(worker);
+            break;
+          case 'error':
+            handlers.onError(message.algorithm, message.message);
+            finishJob(worker);
+            break;
+        }
+      };
+
+      // Uncaught failures such as running out of memory leave the worker unusable,
+      // so it is replaced before the queue continues
+      worker.onerror = (event) => {
+        event.preventDefault();
+        const algorithm = current.get(worker);
+        if (algorithm) handlers.onError(algorithm, event.message || 'Worker crashed');
+        worker.terminate();
+        const replacement = spawn();
+        workers = workers.map((w) => (w === worker ? replacement : w));
+        finishJob(replacement);
+      };
+
+      return worker;
+    };
+
+    for (let i = 0; i < Math.min(size, algorithms.length); i++) {
+      const worker = spawn();
+      workers.push(worker);
+      startNext(worker);
+    }
+  };
+
+  return { run, cancel };
+}
@@ -0,0 +1,24 @@
+import { runSolver } from './solvers';
+import { WorkerRequest, WorkerResponse } from './solver-pool';
+
+// Progress is throttled so a fast inner loop cannot flood the page with messages
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const { algorithm, input } = event.data;
+  let lastProgress = 0;
+
+  try {
+    const output = runSolver(algorithm, input, (fraction) => {
+      const now = performance.now();
+      if (now - lastProgress < PROGRESS_INTERVAL_MS) return;
+      lastProgress = now;
+      post({ type: 'progress', algorithm, fraction });
+    });
+    post({ type: 'result', algorithm, output });
+  } catch (error) {
+    post({ type: 'error', algorithm, message: error instanceof Error ? error.message : String(error) });
+  }
+});
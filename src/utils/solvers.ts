@@ -0,0 +1,206 @@
+import { Point } from './graph-generator';
+import {
+  greedyTSP,
+  heldKarpTSP,
+  christofidesTSP,
+  twoOptTSP,
+  orOptTSP,
+  threeOptTSP,
+  linKernighanTSP,
+  multiStartGreedyTSP,
+  MatchingMethod,
+  MultiStartResult,
+  ProgressCallback,
+  TSPResult
+} from './tsp-algorithms';
+import {
+  simulatedAnnealingTSP,
+  geneticTSP,
+  antColonyTSP,
+  tabuSearchTSP,
+  iteratedLocalSearchTSP,
+  SimulatedAnnealingOptions,
+  GeneticOptions,
+  AntColonyOptions,
+  TabuSearchOptions,
+  IteratedLocalSearchOptions
+} from './metaheuristics';
+import { branchAndBoundTSP } from './branch-and-bound';
+import { branchAndCutTSP } from './branch-and-cut';
+import {
+  nearestInsertionTSP,
+  farthestInsertionTSP,
+  cheapestInsertionTSP,
+  randomInsertionTSP,
+  convexHullInsertionTSP
+} from './insertion-heuristics';
+import { spaceFillingCurveTSP, SpaceFillingCurve } from './space-filling-curve';
+import { timeWindowTSP } from './time-windows';
+import { precedenceTSP, PrecedenceConstraint } from './precedence';
+import {
+  clarkeWrightVRP,
+  sweepVRP,
+  routeFirstClusterSecondVRP,
+  VehicleRoutingOptions
+} from './vehicle-routing';
+import { reduceToTour, restoreMultiStart, restoreResult, PathVariant } from './path-variants';
+
+export type AlgorithmId =
+  | 'greedy'
+  | 'multistart'
+  | 'nearestinsertion'
+  | 'farthestinsertion'
+  | 'cheapestinsertion'
+  | 'randominsertion'
+  | 'convexhull'
+  | 'spacefilling'
+  | 'heldkarp'
+  | 'christofides'
+  | 'twoopt'
+  | 'oropt'
+  | 'threeopt'
+  | 'lk'
+  | 'annealing'
+  | 'genetic'
+  | 'antcolony'
+  | 'tabu'
+  | 'ils'
+  | 'branchbound'
+  | 'branchcut'
+  | 'timewindows'
+  | 'precedence'
+  | 'clarkewright'
+  | 'sweep'
+  | 'routefirst';
+
+// Which tour the local search improvers start from
+export type InitialTour = 'sequential' | 'greedy' | 'christofides';
+
+// Everything a solver needs; plain data so it can be posted to a worker
+export interface SolverInput {
+  // Carries time windows and service times when the instance has them
+  points: Point[];
+  distanceMatrix: number[][];
+  startNode: number;
+  initialTour: InitialTour;
+  matchingMethod: MatchingMethod;
+  curve: SpaceFillingCurve;
+  heldKarpLimit: number;
+  annealing: SimulatedAnnealingOptions;
+  genetic: GeneticOptions;
+  antColony: AntColonyOptions;
+  tabuSearch: TabuSearchOptions;
+  iteratedLocalSearch: IteratedLocalSearchOptions;
+  // The start node doubles as the depot
+  vehicleRouting: VehicleRoutingOptions;
+  precedences: PrecedenceConstraint[];
+  // Open paths are solved as tours of a reduced instance; endNode only matters for fixed ends
+  pathVariant: PathVariant;
+  endNode: number;
+  // Set on the reduced instance of a fixed-end path: constructive heuristics visit it last
+  lastNode?: number;
+}
+
+export interface SolverOutput {
+  result: TSPResult;
+  multiStart?: MultiStartResult;
+}
+
+type Solver = (input: SolverInput, onProgress: ProgressCallback) => SolverOutput;
+
+// Local search improvers build their own start tour so that every solver runs independently
+function startTourFor(input: SolverInput): number[] | undefined {
+  const { distanceMatrix, initialTour, matchingMethod, startNode, lastNode } = input;
+  if (initialTour === 'greedy') return greedyTSP(distanceMatrix, startNode, lastNode).path;
+  if (initialTour === 'christofides') return christofidesTSP(distanceMatrix, matchingMethod, startNode).path;
+  return undefined;
+}
+
+const SOLVERS: Record<AlgorithmId, Solver> = {
+  greedy: ({ distanceMatrix, startNode, lastNode }) => ({ result: greedyTSP(distanceMatrix, startNode, lastNode) }),
+  multistart: ({ distanceMatrix }, onProgress) => {
+    const multiStart = multiStartGreedyTSP(distanceMatrix, onProgress);
+    return { result: multiStart.runs[multiStart.best], multiStart };
+  },
+  nearestinsertion: ({ distanceMatrix, startNode }) => ({ result: nearestInsertionTSP(distanceMatrix, startNode) }),
+  farthestinsertion: ({ distanceMatrix, startNode }) => ({ result: farthestInsertionTSP(distanceMatrix, startNode) }),
+  cheapestinsertion: ({ distanceMatrix, startNode }) => ({ result: cheapestInsertionTSP(distanceMatrix, startNode) }),
+  randominsertion: ({ distanceMatrix, startNode }) => ({ result: randomInsertionTSP(distanceMatrix, startNode) }),
+  convexhull: ({ points, distanceMatrix, startNode }) => ({
+    result: convexHullInsertionTSP(points, distanceMatrix, startNode)
+  }),
+  spacefilling: ({ points, distanceMatrix, curve, startNode }) => ({
+    result: spaceFillingCurveTSP(points, distanceMatrix, curve, startNode)
+  }),
+  heldkarp: ({ distanceMatrix, startNode, heldKarpLimit }, onProgress) => ({
+    result: heldKarpTSP(distanceMatrix, startNode, onProgress, heldKarpLimit)
+  }),
+  christofides: ({ distanceMatrix, matchingMethod, startNode }) => ({
+    result: christofidesTSP(distanceMatrix, matchingMethod, startNode)
+  }),
+  twoopt: (input) => ({ result: twoOptTSP(input.distanceMatrix, startTourFor(input), input.startNode) }),
+  oropt: (input) => ({ result: orOptTSP(input.distanceMatrix, startTourFor(input), input.startNode) }),
+  threeopt: (input) => ({ result: threeOptTSP(input.distanceMatrix, startTourFor(input), input.startNode) }),
+  lk: (input) => ({ result: linKernighanTSP(input.distanceMatrix, startTourFor(input), input.startNode) }),
+  annealing: ({ distanceMatrix, annealing, startNode }, onProgress) => ({
+    result: simulatedAnnealingTSP(distanceMatrix, annealing, startNode, onProgress)
+  }),
+  genetic: ({ distanceMatrix, genetic, startNode }, onProgress) => ({
+    result: geneticTSP(distanceMatrix, genetic, startNode, onProgress)
+  }),
+  antcolony: ({ distanceMatrix, antColony, startNode }, onProgress) => ({
+    result: antColonyTSP(distanceMatrix, antColony, startNode, onProgress)
+  }),
+  tabu: ({ distanceMatrix, tabuSearch, startNode }, onProgress) => ({
+    result: tabuSearchTSP(distanceMatrix, tabuSearch, startNode, onProgress)
+  }),
+  ils: ({ distanceMatrix, iteratedLocalSearch, startNode }, onProgress) => ({
+    result: iteratedLocalSearchTSP(distanceMatrix, iteratedLocalSearch, startNode, onProgress)
+  }),
+  branchbound: ({ distanceMatrix, startNode }, onProgress) => ({
+    result: branchAndBoundTSP(distanceMatrix, startNode, onProgress)
+  }),
+  branchcut: ({ distanceMatrix, startNode }, onProgress) => ({
+    result: branchAndCutTSP(distanceMatrix, startNode, onProgress)
+  }),
+  timewindows: ({ points, distanceMatrix, startNode, lastNode }) => ({
+    result: timeWindowTSP(points, distanceMatrix, startNode, lastNode)
+  }),
+  precedence: ({ distanceMatrix, precedences, startNode, lastNode }) => ({
+    result: precedenceTSP(distanceMatrix, precedences, startNode, lastNode)
+  }),
+  clarkewright: ({ points, distanceMatrix, startNode, vehicleRouting }) => ({
+    result: clarkeWrightVRP(points, distanceMatrix, startNode, vehicleRouting)
+  }),
+  sweep: ({ points, distanceMatrix, startNode, vehicleRouting }) => ({
+    result: sweepVRP(points, distanceMatrix, startNode, vehicleRouting)
+  }),
+  routefirst: ({ points, distanceMatrix, startNode, vehicleRouting }) => ({
+    result: routeFirstClusterSecondVRP(points, distanceMatrix, startNode, vehicleRouting)
+  })
+};
+
+// Schedules and precedence constraints only hold in the order these solvers built the route,
+// so their tours must never be read backwards
+const DIRECTED_SOLVERS: AlgorithmId[] = ['timewindows', 'precedence'];
+
+export function runSolver(id: AlgorithmId, input: SolverInput, onProgress: ProgressCallback = () => {}): SolverOutput {
+  if (input.pathVariant === 'tour') return SOLVERS[id](input, onProgress);
+
+  const { points, distanceMatrix, startNode, pathVariant, endNode, precedences } = input;
+  const reduction = reduceToTour(points, distanceMatrix, startNode, pathVariant, endNode, DIRECTED_SOLVERS.includes(id));
+  const output = SOLVERS[id](
+    {
+      ...input,
+      points: reduction.points,
+      distanceMatrix: reduction.distanceMatrix,
+      startNode: reduction.startNode,
+      lastNode: reduction.endNode
+    },
+    onProgress
+  );
+  if (!output.multiStart) return { result: restoreResult(output.result, reduction, distanceMatrix, precedences) };
+
+  const multiStart = restoreMultiStart(output.multiStart, reduction, distanceMatrix, precedences);
+  return { result: multiStart.runs[multiStart.best], multiStart };
+}
@@ -0,0 +1,135 @@
+import { calculatePathCost, Point } from './graph-generator';
+import { AlgorithmStep, TSPResult, rotateToStart } from './tsp-algorithms';
+
+export type SpaceFillingCurve = 'hilbert' | 'sierpinski';
+
+// Resolution of the grid the points are snapped to before computing curve positions
+const CURVE_ORDER = 12;
+const GRID_SIZE = 1 << CURVE_ORDER;
+
+const CURVE_NAMES: Record<SpaceFillingCurve, string> = {
+  hilbert: 'Hilbert',
+  sierpinski: 'Sierpinski'
+};
+
+// Space-Filling Curve - visit cities in the order a Hilbert or Sierpinski curve passes them
+export function spaceFillingCurveTSP(
+  points: Point[],
+  distanceMatrix: number[][],
+  curve: SpaceFillingCurve = 'hilbert',
+  startNode = 0
+): TSPResult {
+  const startTime = performance.now();
+  const steps: AlgorithmStep[] = [];
+  const n = points.length;
+  const name = CURVE_NAMES[curve];
+
+  // Scale both axes by the same factor so the curve preserves distances in every direction
+  const minX = Math.min(...points.map((p) => p.x));
+  const minY = Math.min(...points.map((p) => p.y));
+  const span = Math.max(
+    Math.max(...points.map((p) => p.x)) - minX,
+    Math.max(...points.map((p) => p.y)) - minY,
+    1e-9
+  );
+  const toGrid = (value: number, min: number) => Math.min(GRID_SIZE - 1, Math.floor(((value - min) / span) * GRID_SIZE));
+
+  const positions = points.map((p) => {
+    const x = toGrid(p.x, minX);
+    const y = toGrid(p.y, minY);
+    return curve === 'hilbert' ? hilbertIndex(x, y) : sierpinskiIndex(x, y);
+  });
+  // Rotating the cyclic order to begin at the start node leaves the tour cost unchanged
+  const path = rotateToStart(points.map((_, i) => i).sort((a, b) => positions[a] - positions[b]), startNode);
+
+  steps.push({
+    description: `Map every city to its position along the ${name} curve`,
+    visitedNodes: [],
+    currentPath: [],
+    cost: 0,
+    additionalInfo: `Cities are snapped to a ${GRID_SIZE}×${GRID_SIZE} grid. Cities close on the curve are close in the plane`
+  });
+
+  for (let k = 0; k < n; k++) {
+    const tour = path.slice(0, k + 1);
+    steps.push({
+      description: k === 0
+        ? `City ${path[0]} comes first on the curve`
+        : `Follow the curve from city ${path[k - 1]} to city ${path[k]}`,
+      currentNode: path[k],
+      visitedNodes: [...tour],
+      currentPath: tour,
+      highlightEdge: k > 0 ? { from: path[k - 1], to: path[k] } : undefined,
+      cost: k > 0 ? calculatePathCost(tour, distanceMatrix) : 0,
+      additionalInfo: `Curve position ${positions[path[k]]}`
+    });
+  }
+
+  const cost = n > 1 ? calculatePathCost(path, distanceMatrix) : 0;
+  steps.push({
+    description: `Close the tour in ${name} curve order`,
+    visitedNodes: [...path],
+    currentPath: [...path],
+    highlightEdge: n > 1 ? { from: path[n - 1], to: path[0] } : undefined,
+    cost,
+    additionalInfo: `Sorting by curve position takes O(n log n). Final tour cost: ${cost.toFixed(2)}`
+  });
+
+  const executionTime = performance.now() - startTime;
+  return {
+    path,
+    cost,
+    executionTime,
+    steps
+  };
+}
+
+// Distance along the Hilbert curve filling the GRID_SIZE × GRID_SIZE grid
+function hilbertIndex(x: number, y: number): number {
+  let index = 0;
+  for (let s = GRID_SIZE / 2; s >= 1; s /= 2) {
+    const rx = (x & s) > 0 ? 1 : 0;
+    const ry = (y & s) > 0 ? 1 : 0;
+    index += s * s * ((3 * rx) ^ ry);
+
+    // Rotate the quadrant so the sub-curve has the standard orientation
+    if (ry === 0) {
+      if (rx === 1) {
+        x = GRID_SIZE - 1 - x;
+        y = GRID_SIZE - 1 - y;
+      }
+      [x, y] = [y, x];
+    }
+  }
+  return index;
+}
+
+// Position along the closed Sierpinski curve (Platzman and Bartholdi), found by repeatedly
+// halving the right triangle that contains the point
+function sierpinskiIndex(x: number, y: number): number {
+  const max = GRID_SIZE - 1;
+  let index = 0;
+
+  if (x > y) {
+    index++;
+    x = max - x;
+    y = max - y;
+  }
+
+  for (let level = max; level > 0; level = Math.floor(level / 2)) {
+    index += index;
+    if (x + y > max) {
+      index++;
+      [x, y] = [max - y, x];
+    }
+
+    x += x;
+    y += y;
+    index += index;
+    if (y > max) {
+      index++;
+      [x, y] = [y - max, max - x];
+    }
+  }
+  return index;
+}
@@ -0,0 +1,250 @@
+import { calculatePathCost, Point } from './graph-generator';
+import { AlgorithmStep, TSPResult } from './tsp-algorithms';
+
+// How wide the generated windows are, in multiples of the mean leg of the reference route
+export type TimeWindowTightness = 'tight' | 'loose';
+
+const WINDOW_WIDTH_IN_LEGS: Record<TimeWindowTightness, number> = {
+  tight: 1,
+  loose: 4
+};
+
+// Slack added to the reference route's return time for the start node's closing time
+const HORIZON_SLACK = 1.25;
+
+const EPSILON = 1e-9;
+
+export interface ScheduleStop {
+  node: number;
+  arrival: number;
+  // Service starts at max(arrival, earliest)
+  start: number;
+  wait: number;
+  departure: number;
+  // How far the arrival is past the window's closing time
+  lateness: number;
+}
+
+export interface Schedule {
+  // Stops in visiting order; for closed tours of two or more cities the last one is the return to the start
+  stops: ScheduleStop[];
+  lateness: number;
+  lateNodes: number[];
+}
+
+export function hasTimeWindows(points: Point[]): boolean {
+  return points.some((point) => point.timeWindow !== undefined);
+}
+
+// Draws windows around a random route from the start node, so at least that route is feasible
+// while shorter tours usually are not. A path with a fixed end gets a route that finishes there.
+export function generateTimeWindows(
+  points: Point[],
+  distanceMatrix: number[][],
+  startNode: number,
+  tightness: TimeWindowTightness,
+  endNode?: number
+): Point[] {
+  const n = points.length;
+  const others = points.map((point) => point.id).filter((id) => id !== startNode && id !== endNode);
+  for (let i = others.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [others[i], others[j]] = [others[j], others[i]];
+  }
+  const route = endNode === undefined || endNode === startNode ? [startNode, ...others] : [startNode, ...others, endNode];
+
+  const meanLeg = n > 1 ? calculatePathCost(route, distanceMatrix) / n : 0;
+  const width = Math.max(1, Math.round(WINDOW_WIDTH_IN_LEGS[tightness] * meanLeg));
+  const windows = new Map<number, { timeWindow: { earliest: number; latest: number }; serviceTime: number }>();
+
+  let time = 0;
+  for (let k = 1; k < n; k++) {
+    const node = route[k];
+    time += distanceMatrix[route[k - 1]][node];
+    // The reference arrival lies inside the window, so the route never waits
+    const earliest = Math.max(0, Math.floor(time - Math.random() * width));
+    const serviceTime = Math.round(meanLeg * (0.1 + 0.2 * Math.random()));
+    windows.set(node, { timeWindow: { earliest, latest: Math.max(earliest + width, Math.ceil(time)) }, serviceTime });
+    time += serviceTime;
+  }
+  time += n > 1 ? distanceMatrix[route[n - 1]][startNode] : 0;
+  windows.set(startNode, { timeWindow: { earliest: 0, latest: Math.ceil(time * HORIZON_SLACK) }, serviceTime: 0 });
+
+  return points.map((point) => ({ ...point, ...windows.get(point.id)! }));
+}
+
+export function withoutTimeWindows(points: Point[]): Point[] {
+  return points.map(({ timeWindow: _timeWindow, serviceTime: _serviceTime, ...point }) => point);
+}
+
+// Simulates a (partial) tour leaving path[0] when its window opens. Late arrivals are served
+// anyway so that the whole timeline can be drawn; their lateness is summed instead.
+export function computeSchedule(path: number[], points: Point[], distanceMatrix: number[][], closed = true): Schedule {
+  const stops: ScheduleStop[] = [];
+  if (path.length === 0) return { stops, lateness: 0, lateNodes: [] };
+
+  const visit = (node: number, arrival: number, serviceTime: number): ScheduleStop => {
+    const window = points[node].timeWindow;
+    const start = Math.max(arrival, window?.earliest ?? 0);
+    const lateness = window ? Math.max(0, arrival - window.latest) : 0;
+    return { node, arrival, start, wait: start - arrival, departure: start + serviceTime, lateness };
+  };
+
+  const first = path[0];
+  stops.push(visit(first, points[first].timeWindow?.earliest ?? 0, points[first].serviceTime ?? 0));
+  for (let k = 1; k < path.length; k++) {
+    const node = path[k];
+    const arrival = stops[k - 1].departure + distanceMatrix[path[k - 1]][node];
+    stops.push(visit(node, arrival, points[node].serviceTime ?? 0));
+  }
+  if (closed && path.length > 1) {
+    const arrival = stops[path.length - 1].departure + distanceMatrix[path[path.length - 1]][first];
+    stops.push(visit(first, arrival, 0));
+  }
+
+  const late = stops.filter((stop) => stop.lateness > EPSILON);
+  return {
+    stops,
+    lateness: late.reduce((sum, stop) => sum + stop.lateness, 0),
+    lateNodes: [...new Set(late.map((stop) => stop.node))]
+  };
+}
+
+interface Evaluation {
+  lateness: number;
+  cost: number;
+}
+
+// Total lateness first, then travel cost
+function isBetter(a: Evaluation, b: Evaluation): boolean {
+  if (a.lateness < b.lateness - EPSILON) return true;
+  return Math.abs(a.lateness - b.lateness) <= EPSILON && a.cost < b.cost - EPSILON;
+}
+
+function formatWindow(point: Point): string {
+  const window = point.timeWindow;
+  return window ? `[${window.earliest}, ${window.latest}]` : 'no window';
+}
+
+// Time Window Insertion - insert cities by closing time at the feasible position that adds the
+// least travel, then relocate segments while lateness or cost improves. A lastNode, if given,
+// stays behind every other city.
+export function timeWindowTSP(
+  points: Point[],
+  distanceMatrix: number[][],
+  startNode = 0,
+  lastNode?: number
+): TSPResult {
+  const startTime = performance.now();
+  const n = distanceMatrix.length;
+  const steps: AlgorithmStep[] = [];
+
+  const evaluate = (tour: number[]): Evaluation => ({
+    lateness: computeSchedule(tour, points, distanceMatrix).lateness,
+    cost: tour.length > 1 ? calculatePathCost(tour, distanceMatrix) : 0
+  });
+
+  // Cities whose window closes first are the hardest to fit later
+  const order = Array.from({ length: n }, (_, i) => i)
+    .filter((node) => node !== startNode)
+    .sort((a, b) => (points[a].timeWindow?.latest ?? Infinity) - (points[b].timeWindow?.latest ?? Infinity));
+
+  let tour = [startNode];
+  steps.push({
+    description: `Start at city ${startNode} at time ${points[startNode].timeWindow?.earliest ?? 0}`,
+    currentNode: startNode,
+    visitedNodes: [startNode],
+    currentPath: [startNode],
+    cost: 0,
+    additionalInfo: "Cities are inserted in order of their window's closing time"
+  });
+
+  for (const city of order) {
+    let best: { position: number; evaluation: Evaluation } | null = null;
+    let feasiblePositions = 0;
+
+    // Position 0 stays the start city, and nothing goes after the last city once it is placed
+    const first = city === lastNode ? tour.length : 1;
+    const last = lastNode !== undefined && tour.includes(lastNode) ? tour.length - 1 : tour.length;
+    for (let position = first; position <= last; position++) {
+      const evaluation = evaluate([...tour.slice(0, position), city, ...tour.slice(position)]);
+      if (evaluation.lateness <= EPSILON) feasiblePositions++;
+      if (!best || isBetter(evaluation, best.evaluation)) best = { position, evaluation };
+    }
+
+    const { position, evaluation } = best!;
+    const prev = tour[position - 1];
+    const next = tour[position % tour.length];
+    tour = [...tour.slice(0, position), city, ...tour.slice(position)];
+
+    steps.push({
+      description: `Insert city ${city} ${formatWindow(points[city])} between ${prev} and ${next}`,
+      currentNode: city,
+      visitedNodes: [...tour],
+      currentPath: [...tour],
+      removedEdges: tour.length > 2 ? [{ from: prev, to: next }] : [],
+      addedEdges: [{ from: prev, to: city }, { from: city, to: next }],
+      cost: evaluation.cost,
+      additionalInfo: feasiblePositions > 0
+        ? `${feasiblePositions} of ${last - first + 1} positions keep every arrival inside its window; this one adds the least travel`
+        : `No position keeps every window; this one has the least total lateness (${evaluation.lateness.toFixed(1)})`
+    });
+  }
+
+  let current = evaluate(tour);
+  let moves = 0;
+  let improved = true;
+  while (improved) {
+    improved = false;
+
+    for (let segLength = 3; segLength >= 1 && !improved; segLength--) {
+      for (let i = 1; i + segLength <= n && !improved; i++) {
+        const segment = tour.slice(i, i + segLength);
+        const rest = [...tour.slice(0, i), ...tour.slice(i + segLength)];
+
+        for (let j = 1; j <= rest.length && !improved; j++) {
+          if (j === i) continue;
+          const candidate = [...rest.slice(0, j), ...segment, ...rest.slice(j)];
+          if (lastNode !== undefined && candidate[n - 1] !== lastNode) continue;
+          const evaluation = evaluate(candidate);
+          if (!isBetter(evaluation, current)) continue;
+
+          const reason = evaluation.lateness < current.lateness - EPSILON
+            ? `Total lateness drops from ${current.lateness.toFixed(1)} to ${evaluation.lateness.toFixed(1)}`
+            : `Still feasible and travel drops by ${(current.cost - evaluation.cost).toFixed(2)}`;
+          const costDelta = evaluation.cost - current.cost;
+          tour = candidate;
+          current = evaluation;
+          moves++;
+          improved = true;
+
+          steps.push({
+            description: `Move ${moves}: relocate [${segment.join(', ')}] after city ${rest[j - 1]}`,
+            visitedNodes: [...tour],
+            currentPath: [...tour],
+            addedEdges: [
+              { from: rest[j - 1], to: segment[0] },
+              { from: segment[segLength - 1], to: rest[j % rest.length] }
+            ],
+            cost: current.cost,
+            costDelta,
+            additionalInfo: reason
+          });
+        }
+      }
+    }
+  }
+
+  steps.push({
+    description: current.lateness <= EPSILON
+      ? "Every city is served inside its time window"
+      : `No feasible schedule found; total lateness ${current.lateness.toFixed(1)}`,
+    visitedNodes: [...tour],
+    currentPath: [...tour],
+    cost: current.cost,
+    additionalInfo: `${moves} improving relocation${moves === 1 ? '' : 's'} after insertion. Total travel: ${current.cost.toFixed(2)}`
+  });
+
+  const executionTime = performance.now() - startTime;
+  return { path: tour, cost: current.cost, executionTime, steps };
+}
@@ -1,3 +1,6 @@
+import { calculatePathCost, isSymmetric, reversalCostDelta } from './graph-generator';
+import { minimumWeightPerfectMatching } from './blossom-matching';
+
 export interface AlgorithmStep {
   description: string;
   currentNode?: number;
@@ -5,45 +8,98 @@ export interface AlgorithmStep {
   currentPath: number[];
   exploringEdges?: Array<{ from: number; to: number }>;
   highlightEdge?: { from: number; to: number };
+  removedEdges?: Array<{ from: number; to: number }>;
+  addedEdges?: Array<{ from: number; to: number }>;
+  edgeWeights?: Array<{ from: number; to: number; weight: number }>;
   cost?: number;
+  costDelta?: number;
+  bestCost?: number;
+  temperature?: number;
   additionalInfo?: string;
+  treeNodeId?: number;
+  dpLayer?: number;
+  // Vehicle routing: one closed route per vehicle, each starting at the depot
+  routes?: number[][];
+  // Why the move shown in this step was not applied
+  rejectedReason?: string;
+}
+
+export type SearchTreeStatus = 'open' | 'branched' | 'pruned' | 'infeasible' | 'solution';
+
+export interface SearchTreeNode {
+  id: number;
+  parentId: number | null;
+  depth: number;
+  decision: string;
+  lowerBound: number;
+  status: SearchTreeStatus;
+  // Step at which the node was created and the step at which its status became final
+  createdStep: number;
+  resolvedStep?: number;
+}
+
+// Long-running solvers report the fraction of their work done, between 0 and 1
+export type ProgressCallback = (fraction: number) => void;
+
+// One Held-Karp table cell: the cheapest path from the start through subset, ending at last
+export interface DPTableEntry {
+  layer: number;
+  subset: number[];
+  last: number;
+  cost: number;
+  parent: number;
+  path: number[];
+}
+
+export interface VehicleRoute {
+  path: number[];
+  cost: number;
+  load: number;
 }
 
 export interface TSPResult {
+  // Vehicle routing results list the depot and then every customer in route order
   path: number[];
   cost: number;
   executionTime: number;
   steps: AlgorithmStep[];
+  bestIteration?: number;
+  provenOptimal?: boolean;
+  searchTree?: SearchTreeNode[];
+  dpTable?: DPTableEntry[];
+  routes?: VehicleRoute[];
 }
 
 // Greedy Algorithm - Nearest Neighbor
-export function greedyTSP(distanceMatrix: number[][]): TSPResult {
+export function greedyTSP(distanceMatrix: number[][], startNode = 0, lastNode?: number): TSPResult {
   const startTime = performance.now();
   const n = distanceMatrix.length;
   const visited = new Array(n).fill(false);
-  const path: number[] = [0];
-  visited[0] = true;
+  const path: number[] = [startNode];
+  visited[startNode] = true;
   let totalCost = 0;
   const steps: AlgorithmStep[] = [];
 
   steps.push({
-    description: "Start at node 0",
-    currentNode: 0,
-    visitedNodes: [0],
-    currentPath: [0],
+    description: `Start at node ${startNode}`,
+    currentNode: startNode,
+    visitedNodes: [startNode],
+    currentPath: [startNode],
     cost: 0,
-    additionalInfo: "Greedy algorithm always starts at node 0"
+    additionalInfo: "The resulting tour depends on the starting city"
   });
 
   for (let i = 0; i < n - 1; i++) {
     const current = path[path.length - 1];
     let nearest = -1;
     let minDistance = Infinity;
+    // A fixed last node waits until it is the only one left
+    const open = (j: number) => !visited[j] && (j !== lastNode || i === n - 2);
 
     // Find unvisited neighbors to explore
     const exploringEdges: Array<{ from: number; to: number }> = [];
     for (let j = 0; j < n; j++) {
-      if (!visited[j]) {
+      if (open(j)) {
         exploringEdges.push({ from: current, to: j });
       }
     }
@@ -59,7 +115,7 @@ export function greedyTSP(distanceMatrix: number[][]): TSPResult {
     });
 
     for (let j = 0; j < n; j++) {
-      if (!visited[j] && distanceMatrix[current][j] < minDistance) {
+      if (open(j) && distanceMatrix[current][j] < minDistance) {
         minDistance = distanceMatrix[current][j];
         nearest = j;
       }
@@ -87,11 +143,11 @@ export function greedyTSP(distanceMatrix: number[][]): TSPResult {
   totalCost += finalCost;
 
   steps.push({
-    description: `Return to start node 0 (distance: ${finalCost.toFixed(2)})`,
-    currentNode: 0,
-    visitedNodes: [...path, 0],
-    currentPath: [...path, 0],
-    highlightEdge: { from: path[path.length - 1], to: 0 },
+    description: `Return to start node ${startNode} (distance: ${finalCost.toFixed(2)})`,
+    currentNode: startNode,
+    visitedNodes: [...path, startNode],
+    currentPath: [...path, startNode],
+    highlightEdge: { from: path[path.length - 1], to: startNode },
     cost: totalCost,
     additionalInfo: `Complete the tour. Total cost: ${totalCost.toFixed(2)}`
   });
@@ -100,98 +156,314 @@ export function greedyTSP(distanceMatrix: number[][]): TSPResult {
   return { path, cost: totalCost, executionTime, steps };
 }
 
-// Held-Karp Algorithm - Dynamic Programming (Fixed)
-export function heldKarpTSP(distanceMatrix: number[][]): TSPResult {
+export interface MultiStartResult {
+  // One nearest neighbour run per start node, indexed by start node
+  runs: TSPResult[];
+  best: number;
+  worst: number;
+  median: number;
+}
+
+// Multi-Start Nearest Neighbor - run the greedy heuristic from every start node
+export function multiStartGreedyTSP(distanceMatrix: number[][], onProgress?: ProgressCallback): MultiStartResult {
+  const n = distanceMatrix.length;
+  const runs = Array.from({ length: n }, (_, start) => {
+    onProgress?.(start / n);
+    return greedyTSP(distanceMatrix, start);
+  });
+  const byCost = runs.map((_, start) => start).sort((a, b) => runs[a].cost - runs[b].cost);
+
+  return {
+    runs,
+    best: byCost[0],
+    worst: byCost[n - 1],
+    median: byCost[Math.floor((n - 1) / 2)]
+  };
+}
+
+// Held-Karp refuses instances above this many cities unless the caller raises the limit
+export const DEFAULT_HELD_KARP_LIMIT = 20;
+// Up to this many cities every DP table entry is recorded for the table panel
+const HELD_KARP_TABLE_MAX_CITIES = 10;
+
+// Rough cost of one inner-loop update, used to turn the operation count into a time estimate
+const HELD_KARP_SECONDS_PER_OPERATION = 1.5e-8;
+
+export interface HeldKarpEstimate {
+  bytes: number;
+  operations: number;
+  seconds: number;
+}
+
+// Memory and time Held-Karp needs for n cities, before allocating anything
+export function estimateHeldKarp(n: number, symmetric = true): HeldKarpEstimate {
+  const m = Math.max(n - 1, 0);
+  const binomial = binomialTable(m);
+  const top = symmetric ? Math.ceil(m / 2) : m;
+  let entries = 0;
+  let operations = 0;
+
+  for (let k = 1; k <= top; k++) {
+    entries += binomial[m][k] * k;
+    operations += binomial[m][k] * k * (k - 1);
+  }
+  if (symmetric) {
+    const half = m - top;
+    operations += binomial[m][half] * half * top;
+  }
+
+  const bytes = entries * (Float64Array.BYTES_PER_ELEMENT + Uint8Array.BYTES_PER_ELEMENT);
+  return { bytes, operations, seconds: operations * HELD_KARP_SECONDS_PER_OPERATION };
+}
+
+// Held-Karp Algorithm - Dynamic Programming over subsets, stored layer by layer in typed arrays.
+// Subsets never contain the start node, and each layer only stores entries whose last node is in
+// the subset, indexed by the subset's colexicographic rank. On symmetric instances only subsets up
+// to half the size are needed: the tour is two half paths from the start joined by one edge.
+export function heldKarpTSP(
+  distanceMatrix: number[][],
+  startNode = 0,
+  onProgress?: ProgressCallback,
+  maxCities = DEFAULT_HELD_KARP_LIMIT
+): TSPResult {
   const startTime = performance.now();
   const n = distanceMatrix.length;
+  const d = distanceMatrix;
   const steps: AlgorithmStep[] = [];
-  
-  // For large graphs, this becomes too expensive
-  if (n > 20) {
+  const symmetric = isSymmetric(d);
+
+  if (n > maxCities) {
+    const estimate = estimateHeldKarp(n, symmetric);
     return {
       path: [],
       cost: Infinity,
       executionTime: performance.now() - startTime,
       steps: [{
-        description: "Graph too large for Held-Karp",
+        description: `Graph larger than the Held-Karp limit of ${maxCities} cities`,
         visitedNodes: [],
         currentPath: [],
-        additionalInfo: `Held-Karp has O(n² 2ⁿ) complexity. For ${n} nodes, this is too expensive.`
+        additionalInfo: `Held-Karp has O(n² 2ⁿ) complexity. For ${n} nodes it needs about ` +
+          `${(estimate.bytes / 2 ** 20).toFixed(0)} MB and ${estimate.seconds.toFixed(1)} s. Raise the limit to run it anyway.`
       }]
     };
   }
 
+  if (n <= 2) {
+    const path = Array.from({ length: n }, (_, i) => (startNode + i) % n);
+    const cost = n === 2 ? calculatePathCost(path, d) : 0;
+    return {
+      path,
+      cost,
+      executionTime: performance.now() - startTime,
+      steps: [{ description: "Trivial instance", visitedNodes: path, currentPath: path, cost }],
+      provenOptimal: true
+    };
+  }
+
+  // Bit i of a subset mask stands for others[i]
+  const others = Array.from({ length: n }, (_, i) => i).filter((i) => i !== startNode);
+  const m = others.length;
+  const binomial = binomialTable(m);
+  const top = symmetric ? Math.ceil(m / 2) : m;
+  const estimate = estimateHeldKarp(n, symmetric);
+
   steps.push({
-    description: "Initialize: Calculate distances from node 0 to all other nodes",
-    currentNode: 0,
-    visitedNodes: [0],
-    currentPath: [0],
-    additionalInfo: "Dynamic programming approach: build solutions for subsets"
+    description: `Initialize: Calculate distances from node ${startNode} to all other nodes`,
+    currentNode: startNode,
+    visitedNodes: [startNode],
+    currentPath: [startNode],
+    additionalInfo: `Dynamic programming approach: build solutions for subsets. ` +
+      `Estimated ${(estimate.bytes / 2 ** 20).toFixed(1)} MB for ${n} nodes`
   });
 
-  // dp[mask][i] = minimum cost to visit all nodes in mask ending at node i
-  const dp: number[][] = Array(1 << n).fill(0).map(() => Array(n).fill(Infinity));
-  const parent: number[][] = Array(1 << n).fill(0).map(() => Array(n).fill(-1));
-  
-  // Start from node 0
-  dp[1][0] = 0;
+  // cost[k][rank * k + r] = cheapest path from the start through the k-subset with this rank,
+  // ending at its r-th lowest member; parent holds the bit of the previous node on that path
+  const cost: Float64Array[] = [new Float64Array(0), new Float64Array(m)];
+  const parent: Uint8Array[] = [new Uint8Array(0), new Uint8Array(m)];
+  for (let v = 0; v < m; v++) {
+    cost[1][v] = d[startNode][others[v]];
+  }
+
+  // Walks parents back from (mask, last) and returns the path from the start's successor to last
+  const walk = (mask: number, last: number): number[] => {
+    const path: number[] = [];
+    for (let k = popcount(mask); k > 0; k--) {
+      path.push(others[last]);
+      if (k === 1) break;
+      const index = colexRank(mask, binomial) * k + popcount(mask & ((1 << last) - 1));
+      const prev = parent[k][index];
+      mask ^= 1 << last;
+      last = prev;
+    }
+    return path.reverse();
+  };
+
+  // One step per layer; small instances also keep every entry for the DP table panel
+  const dpTable: DPTableEntry[] | undefined = n <= HELD_KARP_TABLE_MAX_CITIES ? [] : undefined;
+  const layerBits = new Int32Array(m);
+
+  const recordLayer = (k: number) => {
+    const layer = cost[k];
+    let bestIndex = 0;
+    for (let i = 1; i < layer.length; i++) {
+      if (layer[i] < layer[bestIndex]) bestIndex = i;
+    }
+    const bestMask = colexUnrank(Math.floor(bestIndex / k), k, binomial);
+    subsetBits(bestMask, layerBits);
+    const bestPath = [startNode, ...walk(bestMask, layerBits[bestIndex % k])];
+
+    steps.push({
+      description: `Layer ${k}: cheapest paths from node ${startNode} through every set of ${k} other node${k === 1 ? '' : 's'}`,
+      currentNode: bestPath[bestPath.length - 1],
+      visitedNodes: bestPath,
+      currentPath: [],
+      exploringEdges: bestPath.slice(1).map((node, i) => ({ from: bestPath[i], to: node })),
+      cost: layer[bestIndex],
+      dpLayer: k,
+      additionalInfo: `${binomial[m][k]} subsets × ${k} possible last nodes = ${layer.length} table entries. ` +
+        `Cheapest entry: ${bestPath.join(' → ')}`
+    });
+
+    if (!dpTable) return;
+    let rank = 0;
+    forEachSubset(m, k, (mask) => {
+      subsetBits(mask, layerBits);
+      const subset = [startNode, ...Array.from(layerBits.subarray(0, k), (bit) => others[bit])].sort((a, b) => a - b);
+      for (let r = 0; r < k; r++) {
+        const index = rank * k + r;
+        dpTable.push({
+          layer: k,
+          subset,
+          last: others[layerBits[r]],
+          cost: layer[index],
+          parent: k === 1 ? startNode : others[parent[k][index]],
+          path: [startNode, ...walk(mask, layerBits[r])]
+        });
+      }
+      rank++;
+    });
+  };
 
   steps.push({
-    description: "Build solutions for all subsets of nodes",
-    visitedNodes: [0],
-    currentPath: [0],
-    additionalInfo: "Computing optimal paths for each subset using dynamic programming"
+    description: symmetric
+      ? `Build solutions for all subsets of up to ${top} of the ${m} other nodes`
+      : "Build solutions for all subsets of nodes",
+    visitedNodes: [startNode],
+    currentPath: [startNode],
+    additionalInfo: symmetric
+      ? "The distances are symmetric, so every tour can be split into two half paths from the start"
+      : "Computing optimal paths for each subset using dynamic programming"
   });
+  recordLayer(1);
+
+  // Distances between subset members by bit index, flattened for the inner loop
+  const between = new Float64Array(m * m);
+  for (let a = 0; a < m; a++) {
+    for (let b = 0; b < m; b++) between[a * m + b] = d[others[a]][others[b]];
+  }
+
+  const bits = new Int32Array(m);
+  const lowerRank = new Float64Array(m + 1);
+  const upperRank = new Float64Array(m + 1);
+  let done = 0;
+  let total = 0;
+  for (let k = 2; k <= top; k++) total += binomial[m][k];
 
-  // Iterate through all subsets
-  for (let mask = 1; mask < (1 << n); mask++) {
-    for (let last = 0; last < n; last++) {
-      // If last node is not in the subset, skip
-      if (!(mask & (1 << last))) continue;
-      if (dp[mask][last] === Infinity) continue;
-
-      // Try to extend to all nodes not in the subset
-      for (let next = 0; next < n; next++) {
-        if (mask & (1 << next)) continue; // Already visited
-        
-        const newMask = mask | (1 << next);
-        const newCost = dp[mask][last] + distanceMatrix[last][next];
-        
-        if (newCost < dp[newMask][next]) {
-          dp[newMask][next] = newCost;
-          parent[newMask][next] = last;
+  for (let k = 2; k <= top; k++) {
+    const count = binomial[m][k];
+    const layer = new Float64Array(count * k);
+    const layerParent = new Uint8Array(count * k);
+    const prev = cost[k - 1];
+    let rank = 0;
+
+    forEachSubset(m, k, (mask) => {
+      subsetBits(mask, bits);
+
+      // Rank of the subset without its r-th member is lowerRank[r] + upperRank[r]
+      lowerRank[0] = 0;
+      for (let r = 0; r < k; r++) lowerRank[r + 1] = lowerRank[r] + binomial[bits[r]][r + 1];
+      upperRank[k - 1] = 0;
+      for (let r = k - 1; r > 0; r--) upperRank[r - 1] = upperRank[r] + binomial[bits[r]][r];
+
+      for (let r = 0; r < k; r++) {
+        const last = bits[r];
+        const base = (lowerRank[r] + upperRank[r]) * (k - 1);
+        let best = Infinity;
+        let bestPrev = 0;
+        for (let t = 0; t < k; t++) {
+          if (t === r) continue;
+          const value = prev[base + (t < r ? t : t - 1)] + between[bits[t] * m + last];
+          if (value < best) {
+            best = value;
+            bestPrev = bits[t];
+          }
         }
+        layer[rank * k + r] = best;
+        layerParent[rank * k + r] = bestPrev;
       }
-    }
+
+      rank++;
+      if ((++done & 0xfff) === 0) onProgress?.(done / total);
+    });
+
+    cost.push(layer);
+    parent.push(layerParent);
+    recordLayer(k);
   }
 
-  // Find the best ending node
-  const fullMask = (1 << n) - 1;
+  const full = (1 << m) - 1;
   let minCost = Infinity;
-  let lastNode = -1;
+  let path: number[] = [];
 
-  for (let i = 0; i < n; i++) {
-    if (i === 0) continue;
-    const cost = dp[fullMask][i] + distanceMatrix[i][0];
-    if (cost < minCost) {
-      minCost = cost;
-      lastNode = i;
+  if (!symmetric) {
+    subsetBits(full, bits);
+    let bestLast = 0;
+    for (let r = 0; r < m; r++) {
+      const value = cost[m][r] + d[others[bits[r]]][startNode];
+      if (value < minCost) {
+        minCost = value;
+        bestLast = bits[r];
+      }
     }
-  }
+    path = [startNode, ...walk(full, bestLast)];
+  } else {
+    // Join a half path through S ending at j with a half path through the complement ending at i
+    const half = m - top;
+    const complementBits = new Int32Array(m);
+    let best = { mask: 0, j: 0, i: 0 };
+    let rank = 0;
 
-  // Reconstruct path
-  const path: number[] = [];
-  let mask = fullMask;
-  let curr = lastNode;
+    forEachSubset(m, half, (mask) => {
+      const complement = full ^ mask;
+      const complementBase = colexRank(complement, binomial) * top;
+      subsetBits(mask, bits);
+      subsetBits(complement, complementBits);
 
-  while (curr !== -1) {
-    path.push(curr);
-    const prev = parent[mask][curr];
-    mask ^= (1 << curr);
-    curr = prev;
-  }
+      for (let r = 0; r < half; r++) {
+        const j = bits[r];
+        const headCost = cost[half][rank * half + r];
+        for (let t = 0; t < top; t++) {
+          const value = headCost + between[j * m + complementBits[t]] + cost[top][complementBase + t];
+          if (value < minCost) {
+            minCost = value;
+            best = { mask, j: bits[r], i: complementBits[t] };
+          }
+        }
+      }
+      rank++;
+    });
 
-  path.reverse();
+    path = [startNode, ...walk(best.mask, best.j), ...walk(full ^ best.mask, best.i).reverse()];
+
+    steps.push({
+      description: `Join the two half paths with edge ${others[best.j]} → ${others[best.i]}`,
+      visitedNodes: path,
+      currentPath: path,
+      highlightEdge: { from: others[best.j], to: others[best.i] },
+      cost: minCost,
+      additionalInfo: `Tried every split of the ${m} other nodes into ${half} + ${top}`
+    });
+  }
 
   steps.push({
     description: "Reconstructed optimal path",
@@ -202,15 +474,37 @@ export function heldKarpTSP(distanceMatrix: number[][]): TSPResult {
   });
 
   const executionTime = performance.now() - startTime;
-  return { path, cost: minCost, executionTime, steps };
+  return { path, cost: minCost, executionTime, steps, provenOptimal: true, dpTable };
 }
 
+// How Christofides pairs up the odd-degree vertices of the MST
+export type MatchingMethod = 'exact' | 'greedy';
+
 // Christofides Algorithm
-export function christofidesTSP(distanceMatrix: number[][]): TSPResult {
+export function christofidesTSP(
+  distanceMatrix: number[][],
+  matchingMethod: MatchingMethod = 'exact',
+  startNode = 0
+): TSPResult {
   const startTime = performance.now();
   const n = distanceMatrix.length;
   const steps: AlgorithmStep[] = [];
 
+  // The MST and matching ignore edge direction, so the 1.5× guarantee needs d(i, j) = d(j, i)
+  if (!isSymmetric(distanceMatrix)) {
+    return {
+      path: [],
+      cost: Infinity,
+      executionTime: performance.now() - startTime,
+      steps: [{
+        description: "Christofides is not defined for asymmetric instances",
+        visitedNodes: [],
+        currentPath: [],
+        additionalInfo: "The spanning tree and perfect matching treat edges as undirected. Use a symmetric graph to run it."
+      }]
+    };
+  }
+
   steps.push({
     description: "Step 1: Find Minimum Spanning Tree (MST)",
     visitedNodes: [],
@@ -219,7 +513,7 @@ export function christofidesTSP(distanceMatrix: number[][]): TSPResult {
   });
 
   // Step 1: Find Minimum Spanning Tree using Prim's algorithm
-  const mst = primMST(distanceMatrix);
+  const mst = primMST(distanceMatrix, startNode);
 
   const mstEdges = mst.map(e => ({ from: e.from, to: e.to }));
   steps.push({
@@ -252,15 +546,22 @@ export function christofidesTSP(distanceMatrix: number[][]): TSPResult {
   });
 
   // Step 3: Find minimum weight perfect matching on odd vertices
-  const matching = minimumWeightMatching(oddVertices, distanceMatrix);
+  const exactMatching = minimumWeightPerfectMatching(oddVertices, distanceMatrix);
+  const greedy = greedyMatching(oddVertices, distanceMatrix);
+  const greedyWeight = greedy.reduce((sum, e) => sum + distanceMatrix[e.from][e.to], 0);
+  const matching = matchingMethod === 'exact' ? exactMatching.pairs : greedy;
 
   const matchingEdges = matching.map(e => ({ from: e.from, to: e.to }));
   steps.push({
-    description: "Step 3: Find minimum weight perfect matching",
+    description: matchingMethod === 'exact'
+      ? "Step 3: Find minimum weight perfect matching (Edmonds' blossom algorithm)"
+      : "Step 3: Find a greedy matching (no 1.5× guarantee)",
     visitedNodes: oddVertices,
     currentPath: [],
     exploringEdges: matchingEdges,
-    additionalInfo: `Created ${matching.length} matching pairs`
+    additionalInfo: `Created ${matching.length} matching pairs. ` +
+      `Blossom matching weight ${exactMatching.weight.toFixed(2)} (${exactMatching.blossoms} blossom contraction${exactMatching.blossoms === 1 ? '' : 's'}), ` +
+      `greedy matching weight ${greedyWeight.toFixed(2)}`
   });
 
   // Step 4: Combine MST and matching to form Eulerian graph
@@ -283,13 +584,13 @@ export function christofidesTSP(distanceMatrix: number[][]): TSPResult {
   });
 
   // Step 5: Find Eulerian circuit
-  const circuit = findEulerianCircuit(eulerianGraph, 0);
+  const circuit = findEulerianCircuit(eulerianGraph, startNode);
 
   steps.push({
     description: "Step 5: Find Eulerian circuit",
     visitedNodes: circuit,
     currentPath: circuit,
-    additionalInfo: `Eulerian circuit visits ${circuit.length} vertices (with repetitions)`
+    additionalInfo: `Eulerian circuit from node ${startNode} visits ${circuit.length} vertices (with repetitions)`
   });
 
   // Step 6: Convert to Hamiltonian circuit by skipping repeated vertices
@@ -321,12 +622,504 @@ export function christofidesTSP(distanceMatrix: number[][]): TSPResult {
   return { path, cost: totalCost, executionTime, steps };
 }
 
-function primMST(distanceMatrix: number[][]): { from: number; to: number; weight: number }[] {
+// 2-opt Local Search - improves an existing tour by removing crossings
+export function twoOptTSP(distanceMatrix: number[][], initialPath?: number[], startNode = 0): TSPResult {
+  const startTime = performance.now();
+  const n = distanceMatrix.length;
+  const steps: AlgorithmStep[] = [];
+
+  const path = startingTour(n, initialPath, startNode);
+  let totalCost = calculatePathCost(path, distanceMatrix);
+  let swaps = 0;
+  const symmetric = isSymmetric(distanceMatrix);
+
+  steps.push({
+    description: "Start from the initial tour",
+    visitedNodes: [...path],
+    currentPath: [...path],
+    cost: totalCost,
+    additionalInfo: initialPath
+      ? "Improving the supplied tour with 2-opt edge swaps"
+      : "Improving the sequential tour with 2-opt edge swaps"
+  });
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+
+    for (let i = 0; i < n - 1; i++) {
+      for (let j = i + 2; j < n; j++) {
+        // Edges (path[0], path[1]) and (path[n-1], path[0]) share a node
+        if (i === 0 && j === n - 1) continue;
+
+        const a = path[i];
+        const b = path[i + 1];
+        const c = path[j];
+        const d = path[(j + 1) % n];
+        // On asymmetric instances the reversed segment b..c also changes cost
+        const delta = distanceMatrix[a][c] + distanceMatrix[b][d]
+          - distanceMatrix[a][b] - distanceMatrix[c][d]
+          + (symmetric ? 0 : reversalCostDelta(path, i + 1, j, distanceMatrix));
+
+        if (delta < -1e-9) {
+          // Reversing the segment b..c replaces (a, b), (c, d) with (a, c), (b, d)
+          reverseSegment(path, i + 1, j);
+          totalCost += delta;
+          swaps++;
+          improved = true;
+
+          steps.push({
+            description: `Swap ${swaps}: replace edges ${a}–${b} and ${c}–${d} with ${a}–${c} and ${b}–${d}`,
+            visitedNodes: [...path],
+            currentPath: [...path],
+            removedEdges: [{ from: a, to: b }, { from: c, to: d }],
+            addedEdges: [{ from: a, to: c }, { from: b, to: d }],
+            cost: totalCost,
+            costDelta: delta,
+            additionalInfo: `Reversed the segment between positions ${i + 1} and ${j}. Cost change: ${delta.toFixed(2)}`
+          });
+        }
+      }
+    }
+  }
+
+  steps.push({
+    description: "2-opt local optimum reached",
+    visitedNodes: [...path],
+    currentPath: [...path],
+    cost: totalCost,
+    additionalInfo: `No improving swap remains after ${swaps} swap${swaps === 1 ? '' : 's'}. Total cost: ${totalCost.toFixed(2)}`
+  });
+
+  const executionTime = performance.now() - startTime;
+  return { path, cost: totalCost, executionTime, steps };
+}
+
+// Or-opt Local Search - relocates segments of 1-3 consecutive cities
+export function orOptTSP(distanceMatrix: number[][], initialPath?: number[], startNode = 0): TSPResult {
+  const startTime = performance.now();
+  const n = distanceMatrix.length;
+  const steps: AlgorithmStep[] = [];
+
+  let path = startingTour(n, initialPath, startNode);
+  let totalCost = calculatePathCost(path, distanceMatrix);
+  let moves = 0;
+
+  steps.push({
+    description: "Start from the initial tour",
+    visitedNodes: [...path],
+    currentPath: [...path],
+    cost: totalCost,
+    additionalInfo: "Trying to move segments of 3, 2 and 1 cities to a cheaper position"
+  });
+
+  const d = distanceMatrix;
+  const symmetric = isSymmetric(d);
+  let improved = true;
+  while (improved) {
+    improved = false;
+
+    for (let segLength = 3; segLength >= 1 && !improved; segLength--) {
+      // Need at least two cities outside the segment plus the gap it leaves
+      if (n < segLength + 3) continue;
+
+      for (let i = 0; i < n && !improved; i++) {
+        const segment = Array.from({ length: segLength }, (_, k) => path[(i + k) % n]);
+        const first = segment[0];
+        const last = segment[segLength - 1];
+        const prev = path[(i - 1 + n) % n];
+        const next = path[(i + segLength) % n];
+
+        // Remaining cities in tour order, starting right after the segment
+        const rest = Array.from({ length: n - segLength }, (_, k) => path[(i + segLength + k) % n]);
+        const removalGain = d[prev][first] + d[last][next] - d[prev][next];
+
+        // The last gap of rest is (prev, next), where the segment came from
+        for (let j = 0; j < rest.length - 1; j++) {
+          const u = rest[j];
+          const v = rest[j + 1];
+          const forward = d[u][first] + d[last][v] - d[u][v];
+          const reversed = d[u][last] + d[first][v] - d[u][v]
+            + (symmetric ? 0 : reversalCostDelta(segment, 0, segLength - 1, d));
+          const reverse = segLength > 1 && reversed < forward;
+          const delta = (reverse ? reversed : forward) - removalGain;
+
+          if (delta < -1e-9) {
+            const moved = reverse ? [...segment].reverse() : segment;
+            const start = path[0];
+            path = rotateToStart([...rest.slice(0, j + 1), ...moved, ...rest.slice(j + 1)], start);
+            totalCost += delta;
+            moves++;
+            improved = true;
+
+            const caseName = segLength === 1
+              ? `move city ${first}`
+              : `move segment [${segment.join(', ')}]${reverse ? ' reversed' : ''}`;
+
+            steps.push({
+              description: `Move ${moves}: Or-opt ${caseName} between ${u} and ${v}`,
+              visitedNodes: [...path],
+              currentPath: [...path],
+              removedEdges: [
+                { from: prev, to: first },
+                { from: last, to: next },
+                { from: u, to: v }
+              ],
+              addedEdges: [
+                { from: prev, to: next },
+                { from: u, to: moved[0] },
+                { from: moved[segLength - 1], to: v }
+              ],
+              cost: totalCost,
+              costDelta: delta,
+              additionalInfo: `Segment of ${segLength} cit${segLength === 1 ? 'y' : 'ies'} relocated. Cost change: ${delta.toFixed(2)}`
+            });
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  steps.push({
+    description: "Or-opt local optimum reached",
+    visitedNodes: [...path],
+    currentPath: [...path],
+    cost: totalCost,
+    additionalInfo: `No improving segment move remains after ${moves} move${moves === 1 ? '' : 's'}. Total cost: ${totalCost.toFixed(2)}`
+  });
+
+  const executionTime = performance.now() - startTime;
+  return { path, cost: totalCost, executionTime, steps };
+}
+
+// The seven ways to reconnect a tour after removing three edges (a, b), (c, d), (e, f).
+// S1 = b..c and S2 = d..e are the two inner segments; each case returns them in their new order.
+const THREE_OPT_CASES: Array<{
+  name: string;
+  build: (s1: number[], s2: number[]) => [number[], number[]];
+}> = [
+  { name: "2-opt move: reverse S1", build: (s1, s2) => [reversed(s1), s2] },
+  { name: "2-opt move: reverse S2", build: (s1, s2) => [s1, reversed(s2)] },
+  { name: "2-opt move: reverse S1 + S2", build: (s1, s2) => [reversed(s2), reversed(s1)] },
+  { name: "3-opt: reverse S1 and S2 in place", build: (s1, s2) => [reversed(s1), reversed(s2)] },
+  { name: "3-opt: swap S1 and S2 (segment exchange)", build: (s1, s2) => [s2, s1] },
+  { name: "3-opt: swap and reverse S2", build: (s1, s2) => [reversed(s2), s1] },
+  { name: "3-opt: swap and reverse S1", build: (s1, s2) => [s2, reversed(s1)] }
+];
+
+// 3-opt Local Search - removes three edges and tries every reconnection
+export function threeOptTSP(distanceMatrix: number[][], initialPath?: number[], startNode = 0): TSPResult {
+  const startTime = performance.now();
+  const n = distanceMatrix.length;
+  const steps: AlgorithmStep[] = [];
+
+  let path = startingTour(n, initialPath, startNode);
+  let totalCost = calculatePathCost(path, distanceMatrix);
+  let moves = 0;
+
+  steps.push({
+    description: "Start from the initial tour",
+    visitedNodes: [...path],
+    currentPath: [...path],
+    cost: totalCost,
+    additionalInfo: "Removing three edges at a time and trying all seven reconnections"
+  });
+
+  const edgeCost = (from: number, to: number) => distanceMatrix[from][to];
+  const symmetric = isSymmetric(distanceMatrix);
+  // Reversed segments only change cost on asymmetric instances
+  const segmentCost = (segment: number[]) => (symmetric ? 0 : calculatePathCost(segment, distanceMatrix)
+    - distanceMatrix[segment[segment.length - 1]][segment[0]]);
+  let improved = true;
+  while (improved) {
+    improved = false;
+
+    for (let i = 0; i < n - 2 && !improved; i++) {
+      for (let j = i + 1; j < n - 1 && !improved; j++) {
+        for (let k = j + 1; k < n && !improved; k++) {
+          const s1 = path.slice(i + 1, j + 1);
+          const s2 = path.slice(j + 1, k + 1);
+          const a = path[i];
+          const f = path[(k + 1) % n];
+          const removed = [
+            { from: a, to: s1[0] },
+            { from: s1[s1.length - 1], to: s2[0] },
+            { from: s2[s2.length - 1], to: f }
+          ];
+          const removedCost = removed.reduce((sum, e) => sum + edgeCost(e.from, e.to), 0)
+            + segmentCost(s1) + segmentCost(s2);
+
+          // Pick the best of the seven reconnections for this triple
+          let bestDelta = -1e-9;
+          let bestCase = -1;
+          let bestAdded: Array<{ from: number; to: number }> = [];
+          let bestMiddle: number[] = [];
+          THREE_OPT_CASES.forEach((reconnection, caseIndex) => {
+            const [x, y] = reconnection.build(s1, s2);
+            const added = [
+              { from: a, to: x[0] },
+              { from: x[x.length - 1], to: y[0] },
+              { from: y[y.length - 1], to: f }
+            ];
+            const delta = added.reduce((sum, e) => sum + edgeCost(e.from, e.to), 0)
+              + segmentCost(x) + segmentCost(y) - removedCost;
+            if (delta < bestDelta) {
+              bestDelta = delta;
+              bestCase = caseIndex;
+              bestAdded = added;
+              bestMiddle = [...x, ...y];
+            }
+          });
+
+          if (bestCase !== -1) {
+            const start = path[0];
+            path = rotateToStart([...path.slice(0, i + 1), ...bestMiddle, ...path.slice(k + 1)], start);
+            totalCost += bestDelta;
+            moves++;
+            improved = true;
+
+            // 2-opt cases keep one of the three edges; only show the ones that change
+            steps.push({
+              description: `Move ${moves}: ${THREE_OPT_CASES[bestCase].name}`,
+              visitedNodes: [...path],
+              currentPath: [...path],
+              removedEdges: removed.filter(r => !bestAdded.some(e => sameEdge(r, e))),
+              addedEdges: bestAdded.filter(e => !removed.some(r => sameEdge(r, e))),
+              cost: totalCost,
+              costDelta: bestDelta,
+              additionalInfo: `S1 = [${s1.join(', ')}], S2 = [${s2.join(', ')}]. Cost change: ${bestDelta.toFixed(2)}`
+            });
+          }
+        }
+      }
+    }
+  }
+
+  steps.push({
+    description: "3-opt local optimum reached",
+    visitedNodes: [...path],
+    currentPath: [...path],
+    cost: totalCost,
+    additionalInfo: `No improving reconnection remains after ${moves} move${moves === 1 ? '' : 's'}. Total cost: ${totalCost.toFixed(2)}`
+  });
+
+  const executionTime = performance.now() - startTime;
+  return { path, cost: totalCost, executionTime, steps };
+}
+
+// Lin-Kernighan - grows a sequential chain of edge exchanges while the partial gain stays positive
+export function linKernighanTSP(distanceMatrix: number[][], initialPath?: number[], startNode = 0): TSPResult {
+  const startTime = performance.now();
+  const n = distanceMatrix.length;
+  const steps: AlgorithmStep[] = [];
+
+  let path = startingTour(n, initialPath, startNode);
+  let totalCost = calculatePathCost(path, distanceMatrix);
+  let improvements = 0;
+  const symmetric = isSymmetric(distanceMatrix);
+
+  steps.push({
+    description: "Start from the initial tour",
+    visitedNodes: [...path],
+    currentPath: [...path],
+    cost: totalCost,
+    additionalInfo: "Each exchange removes (t1, t2) and extends an alternating chain of added/removed edges"
+  });
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+
+    for (let i = 0; i < n && !improved; i++) {
+      // Backtrack over the first few choices of t3, then extend greedily
+      for (let trial = 0; trial < 2 * LK_FIRST_LEVEL_BREADTH; trial++) {
+        const direction = trial % 2 === 0 ? 1 : -1;
+        // Walking an asymmetric tour backwards changes its cost, so only the forward direction is used
+        if (!symmetric && direction === -1) continue;
+        const rank = Math.floor(trial / 2);
+        const exchange = linKernighanChain(path, i, direction, rank, distanceMatrix, symmetric);
+        if (!exchange) continue;
+
+        const t1 = path[i];
+        improvements++;
+        exchange.chain.forEach((link, idx) => {
+          const depth = idx + 1;
+          steps.push({
+            description: `Exchange ${improvements}, depth ${depth}: add ${link.t2}–${link.t3}, remove ${link.t3}–${link.t4}`,
+            currentNode: t1,
+            visitedNodes: [t1, link.t4],
+            currentPath: link.tour,
+            removedEdges: link.removed,
+            addedEdges: link.added,
+            highlightEdge: { from: link.t4, to: t1 },
+            cost: totalCost - link.closeGain,
+            additionalInfo: `Gain criterion G${depth - 1} − d(${link.t2}, ${link.t3}) = ${link.criterion.toFixed(2)} > 0. ` +
+              `G${depth} = ${link.gain.toFixed(2)}; closing with ${link.t4}–${t1} would gain ${link.closeGain.toFixed(2)}`
+          });
+        });
+
+        const start = path[0];
+        path = rotateToStart(exchange.tour, start);
+        totalCost -= exchange.gain;
+        improved = true;
+
+        steps.push({
+          description: `Exchange ${improvements}: apply the best closing at depth ${exchange.chain.length}`,
+          currentNode: t1,
+          visitedNodes: [...path],
+          currentPath: [...path],
+          cost: totalCost,
+          costDelta: -exchange.gain,
+          additionalInfo: `Sequential ${exchange.chain.length + 1}-opt move from t1 = ${t1} improved the tour by ${exchange.gain.toFixed(2)}`
+        });
+        break;
+      }
+    }
+  }
+
+  steps.push({
+    description: "Lin-Kernighan local optimum reached",
+    visitedNodes: [...path],
+    currentPath: [...path],
+    cost: totalCost,
+    additionalInfo: `No improving chain from any t1 after ${improvements} exchange${improvements === 1 ? '' : 's'}. Total cost: ${totalCost.toFixed(2)}`
+  });
+
+  const executionTime = performance.now() - startTime;
+  return { path, cost: totalCost, executionTime, steps };
+}
+
+const LK_FIRST_LEVEL_BREADTH = 5;
+
+interface ChainLink {
+  t2: number;
+  t3: number;
+  t4: number;
+  tour: number[];
+  removed: Array<{ from: number; to: number }>;
+  added: Array<{ from: number; to: number }>;
+  criterion: number;
+  gain: number;
+  closeGain: number;
+}
+
+// Builds one Lin-Kernighan chain starting by removing (t1, t2), where t2 follows t1 in the
+// given direction. Each level is realised as a 2-opt move on the Hamiltonian path t2 … t1,
+// so the tour closed by (t4, t1) is always valid. The first level takes the firstRank-th best
+// candidate, deeper levels the best one. Returns the best closing, if it improves.
+// Edge costs are read in tour direction, so asymmetric instances also pay for the reversed prefix.
+function linKernighanChain(
+  path: number[],
+  t1Index: number,
+  direction: number,
+  firstRank: number,
+  distanceMatrix: number[][],
+  symmetric: boolean
+): { tour: number[]; gain: number; chain: ChainLink[] } | null {
+  const n = path.length;
+  const d = distanceMatrix;
+  const t1 = path[t1Index];
+
+  // tour[0] is the free end t2, tour[n - 1] is t1
+  let tour = Array.from({ length: n }, (_, k) => path[(((t1Index + direction * (k + 1)) % n) + n) % n]);
+  const removed = [{ from: t1, to: tour[0] }];
+  const added: Array<{ from: number; to: number }> = [];
+  const chain: ChainLink[] = [];
+  let gain = d[t1][tour[0]];
+  let bestGain = 1e-9;
+  let bestDepth = 0;
+  let bestTour: number[] | null = null;
+
+  for (let depth = 1; depth < n; depth++) {
+    const t2 = tour[0];
+    const candidates: Array<{ k: number; score: number }> = [];
+
+    // t3 may not be next to t2, and t4 (its predecessor) may not be t2 or t1's neighbour
+    for (let k = 2; k < n - 1; k++) {
+      const t3 = tour[k];
+      const t4 = tour[k - 1];
+      if (gain - d[t2][t3] <= 1e-9) continue;
+      if (removed.some(e => sameEdge(e, { from: t2, to: t3 }))) continue;
+      if (added.some(e => sameEdge(e, { from: t3, to: t4 }))) continue;
+      const reversal = symmetric ? 0 : reversalCostDelta(tour, 0, k - 1, d);
+      candidates.push({ k, score: d[t4][t3] - d[t2][t3] - reversal });
+    }
+
+    candidates.sort((x, y) => y.score - x.score);
+    const choice = candidates[depth === 1 ? firstRank : 0];
+    if (!choice) break;
+
+    const bestK = choice.k;
+
+    const t3 = tour[bestK];
+    const t4 = tour[bestK - 1];
+    const criterion = gain - d[t2][t3];
+    gain = criterion + d[t4][t3] - (symmetric ? 0 : reversalCostDelta(tour, 0, bestK - 1, d));
+    added.push({ from: t2, to: t3 });
+    removed.push({ from: t3, to: t4 });
+    tour = [...tour.slice(0, bestK).reverse(), ...tour.slice(bestK)];
+
+    const closeGain = gain - d[t1][t4];
+    chain.push({
+      t2, t3, t4,
+      tour: [...tour],
+      removed: [...removed],
+      added: [...added],
+      criterion,
+      gain,
+      closeGain
+    });
+
+    if (closeGain > bestGain) {
+      bestGain = closeGain;
+      bestDepth = depth;
+      bestTour = [...tour];
+    }
+  }
+
+  if (!bestTour) return null;
+  return { tour: bestTour, gain: bestGain, chain: chain.slice(0, bestDepth) };
+}
+
+// Without a starting tour, local search improves the trivial tour 0 → 1 → ... → n-1,
+// rotated so that it begins at the start node
+function startingTour(n: number, initialPath: number[] | undefined, startNode: number): number[] {
+  return rotateToStart(
+    initialPath && initialPath.length === n ? [...initialPath] : Array.from({ length: n }, (_, i) => i),
+    startNode
+  );
+}
+
+export function rotateToStart(path: number[], start: number): number[] {
+  const idx = path.indexOf(start);
+  return idx <= 0 ? path : [...path.slice(idx), ...path.slice(0, idx)];
+}
+
+function reversed(segment: number[]): number[] {
+  return [...segment].reverse();
+}
+
+function sameEdge(e1: { from: number; to: number }, e2: { from: number; to: number }): boolean {
+  return (e1.from === e2.from && e1.to === e2.to) || (e1.from === e2.to && e1.to === e2.from);
+}
+
+function reverseSegment(path: number[], from: number, to: number): void {
+  while (from < to) {
+    const tmp = path[from];
+    path[from] = path[to];
+    path[to] = tmp;
+    from++;
+    to--;
+  }
+}
+
+export function primMST(distanceMatrix: number[][], root = 0): { from: number; to: number; weight: number }[] {
   const n = distanceMatrix.length;
   const visited = new Array(n).fill(false);
   const mst: { from: number; to: number; weight: number }[] = [];
   
-  visited[0] = true;
+  visited[root] = true;
   
   for (let i = 0; i < n - 1; i++) {
     let minWeight = Infinity;
@@ -354,7 +1147,7 @@ function primMST(distanceMatrix: number[][]): { from: number; to: number; weight
   return mst;
 }
 
-function minimumWeightMatching(
+function greedyMatching(
   vertices: number[],
   distanceMatrix: number[][]
 ): { from: number; to: number }[] {
@@ -411,3 +1204,74 @@ function findEulerianCircuit(graph: number[][], start: number): number[] {
   
   return circuit.reverse();
 }
+
+// binomial[p][k] = C(p, k) for 0 <= k <= p <= m
+function binomialTable(m: number): number[][] {
+  const binomial: number[][] = [];
+  for (let p = 0; p <= m; p++) {
+    binomial.push(new Array(m + 1).fill(0));
+    binomial[p][0] = 1;
+    for (let k = 1; k <= p; k++) {
+      binomial[p][k] = binomial[p - 1][k - 1] + binomial[p - 1][k];
+    }
+  }
+  return binomial;
+}
+
+// Visits every m-bit mask with k bits set in increasing order, which is colexicographic order
+function forEachSubset(m: number, k: number, visit: (mask: number) => void): void {
+  if (k === 0) {
+    visit(0);
+    return;
+  }
+  let mask = (1 << k) - 1;
+  while (mask < (1 << m)) {
+    visit(mask);
+    // Gosper's hack: next larger integer with the same number of set bits
+    const lowest = mask & -mask;
+    const ripple = mask + lowest;
+    mask = (((ripple ^ mask) >>> 2) / lowest) | ripple;
+  }
+}
+
+// Position of a mask among the masks with the same number of bits, in colexicographic order
+function colexRank(mask: number, binomial: number[][]): number {
+  let rank = 0;
+  for (let t = 1; mask !== 0; t++) {
+    const bit = 31 - Math.clz32(mask & -mask);
+    rank += binomial[bit][t];
+    mask &= mask - 1;
+  }
+  return rank;
+}
+
+// The k-bit mask with the given colexicographic rank
+function colexUnrank(rank: number, k: number, binomial: number[][]): number {
+  let mask = 0;
+  let p = binomial.length - 1;
+  for (let t = k; t >= 1; t--) {
+    while (binomial[p][t] > rank) p--;
+    mask |= 1 << p;
+    rank -= binomial[p][t];
+    p--;
+  }
+  return mask;
+}
+
+// Writes the indices of the set bits of mask into bits, lowest first
+function subsetBits(mask: number, bits: Int32Array): void {
+  let count = 0;
+  while (mask !== 0) {
+    bits[count++] = 31 - Math.clz32(mask & -mask);
+    mask &= mask - 1;
+  }
+}
+
+function popcount(mask: number): number {
+  let count = 0;
+  while (mask !== 0) {
+    mask &= mask - 1;
+    count++;
+  }
+  return count;
+}
@@ -0,0 +1,288 @@
+import { calculatePathCost, isSymmetric, Point } from './graph-generator';
+import { AlgorithmStep, TSPResult, VehicleRoute, greedyTSP, twoOptTSP } from './tsp-algorithms';
+
+export interface VehicleRoutingOptions {
+  vehicles: number;
+  capacity: number;
+}
+
+export const DEFAULT_VEHICLE_ROUTING_OPTIONS: VehicleRoutingOptions = {
+  vehicles: 3,
+  capacity: 20
+};
+
+const MAX_RANDOM_DEMAND = 9;
+
+// Random demand of 1 to 9 per city; the depot has none
+export function generateDemands(points: Point[], depot: number): Point[] {
+  return points.map((point) => ({
+    ...point,
+    demand: point.id === depot ? 0 : 1 + Math.floor(Math.random() * MAX_RANDOM_DEMAND)
+  }));
+}
+
+export function withoutDemands(points: Point[]): Point[] {
+  return points.map(({ demand: _demand, ...point }) => point);
+}
+
+export function demandOf(points: Point[], node: number): number {
+  return points[node].demand ?? 1;
+}
+
+// Clarke-Wright Savings - start with one route per customer and merge the route ending at i
+// with the route starting at j in order of the saving d(i, depot) + d(depot, j) - d(i, j)
+export function clarkeWrightVRP(
+  points: Point[],
+  distanceMatrix: number[][],
+  depot: number,
+  options: VehicleRoutingOptions
+): TSPResult {
+  const startTime = performance.now();
+  const d = distanceMatrix;
+  const steps: AlgorithmStep[] = [];
+  const customers = customersOf(points, depot);
+  const symmetric = isSymmetric(d);
+
+  let routes = customers.map((c) => [c]);
+  const loadOf = (route: number[]) => route.reduce((sum, c) => sum + demandOf(points, c), 0);
+
+  steps.push({
+    description: `Start with one route per customer: ${routes.length} routes`,
+    currentNode: depot,
+    visitedNodes: [depot],
+    currentPath: [],
+    routes: withDepot(routes, depot),
+    cost: totalCost(routes, depot, d),
+    additionalInfo: `Capacity ${options.capacity} per vehicle, ${options.vehicles} vehicle${options.vehicles === 1 ? '' : 's'}`
+  });
+
+  const savings: Array<{ i: number; j: number; saving: number }> = [];
+  for (const i of customers) {
+    for (const j of customers) {
+      if (i === j || (symmetric && j < i)) continue;
+      savings.push({ i, j, saving: d[i][depot] + d[depot][j] - d[i][j] });
+    }
+  }
+  savings.sort((a, b) => b.saving - a.saving);
+
+  for (const { i, j, saving } of savings) {
+    if (saving <= 0) break;
+    const a = routes.find((route) => route.includes(i))!;
+    const b = routes.find((route) => route.includes(j))!;
+    if (a === b || loadOf(a) + loadOf(b) > options.capacity) continue;
+
+    // On symmetric instances a route can be driven either way, so i only has to be an end
+    let first = a;
+    let second = b;
+    if (symmetric && first[first.length - 1] !== i && first[0] === i) first = [...first].reverse();
+    if (symmetric && second[0] !== j && second[second.length - 1] === j) second = [...second].reverse();
+    if (first[first.length - 1] !== i || second[0] !== j) continue;
+
+    const merged = [...first, ...second];
+    routes = [...routes.filter((route) => route !== a && route !== b), merged];
+
+    steps.push({
+      description: `Merge at ${i} → ${j}: saving ${saving.toFixed(2)}`,
+      currentNode: j,
+      visitedNodes: [...merged],
+      currentPath: [],
+      routes: withDepot(routes, depot),
+      highlightEdge: { from: i, to: j },
+      removedEdges: [{ from: i, to: depot }, { from: depot, to: j }],
+      cost: totalCost(routes, depot, d),
+      costDelta: -saving,
+      additionalInfo: `Load ${loadOf(merged)} of ${options.capacity}. ${routes.length} routes remain`
+    });
+  }
+
+  return finish(points, d, depot, options, routes, steps, startTime);
+}
+
+// Sweep - rotate a ray around the depot, filling one vehicle at a time, then route each
+// cluster with nearest neighbour and 2-opt
+export function sweepVRP(
+  points: Point[],
+  distanceMatrix: number[][],
+  depot: number,
+  options: VehicleRoutingOptions
+): TSPResult {
+  const startTime = performance.now();
+  const steps: AlgorithmStep[] = [];
+  const origin = points[depot];
+  const angleOf = (c: number) => Math.atan2(points[c].y - origin.y, points[c].x - origin.x);
+  const order = customersOf(points, depot).sort((a, b) => angleOf(a) - angleOf(b));
+
+  const clusters: number[][] = [];
+  let load = 0;
+  for (const c of order) {
+    const demand = demandOf(points, c);
+    if (clusters.length === 0 || load + demand > options.capacity) {
+      clusters.push([]);
+      load = 0;
+    }
+    clusters[clusters.length - 1].push(c);
+    load += demand;
+
+    steps.push({
+      description: `Sweep reaches city ${c} at ${((angleOf(c) * 180) / Math.PI).toFixed(0)}°`,
+      currentNode: c,
+      visitedNodes: clusters.flat(),
+      currentPath: [],
+      routes: withDepot(clusters, depot),
+      highlightEdge: { from: depot, to: c },
+      cost: totalCost(clusters, depot, distanceMatrix),
+      additionalInfo: `Vehicle ${clusters.length} load ${load} of ${options.capacity}` +
+        (clusters[clusters.length - 1].length === 1 && clusters.length > 1 ? '. The previous vehicle was full' : '')
+    });
+  }
+
+  const routes = clusters.map((cluster, r) => {
+    const before = calculatePathCost([depot, ...cluster], distanceMatrix);
+    const route = optimiseRoute(cluster, depot, distanceMatrix);
+    const after = calculatePathCost([depot, ...route], distanceMatrix);
+    clusters[r] = route;
+
+    steps.push({
+      description: `Route vehicle ${r + 1} with nearest neighbour and 2-opt`,
+      visitedNodes: [...route],
+      currentPath: [],
+      routes: withDepot(clusters, depot),
+      cost: totalCost(clusters, depot, distanceMatrix),
+      costDelta: after - before,
+      additionalInfo: `Sweep order cost ${before.toFixed(2)}, optimised ${after.toFixed(2)}`
+    });
+    return route;
+  });
+
+  return finish(points, distanceMatrix, depot, options, routes, steps, startTime);
+}
+
+// Route-First Cluster-Second - build one giant tour, then split it optimally into
+// capacity-feasible routes with a shortest-path DP over split points (Beasley's split)
+export function routeFirstClusterSecondVRP(
+  points: Point[],
+  distanceMatrix: number[][],
+  depot: number,
+  options: VehicleRoutingOptions
+): TSPResult {
+  const startTime = performance.now();
+  const d = distanceMatrix;
+  const steps: AlgorithmStep[] = [];
+
+  const giant = twoOptTSP(d, greedyTSP(d, depot).path, depot).path;
+  const order = giant.slice(1);
+  const m = order.length;
+
+  steps.push({
+    description: "Build a giant tour with nearest neighbour and 2-opt",
+    currentNode: depot,
+    visitedNodes: [...giant],
+    currentPath: [...giant],
+    cost: calculatePathCost(giant, d),
+    additionalInfo: "The giant tour ignores capacity; the split decides where vehicles return to the depot"
+  });
+
+  // best[k][i]: cheapest way to serve order[0..i) with k routes, each a contiguous run of the tour
+  const maxRoutes = Math.max(1, m);
+  const best = Array.from({ length: maxRoutes + 1 }, () => new Array(m + 1).fill(Infinity));
+  const split = Array.from({ length: maxRoutes + 1 }, () => new Array(m + 1).fill(-1));
+  best[0][0] = 0;
+  for (let k = 1; k <= maxRoutes; k++) {
+    for (let i = 0; i < m; i++) {
+      if (best[k - 1][i] === Infinity) continue;
+      let load = 0;
+      let inner = 0;
+      for (let j = i; j < m; j++) {
+        load += demandOf(points, order[j]);
+        if (load > options.capacity) break;
+        if (j > i) inner += d[order[j - 1]][order[j]];
+        const cost = best[k - 1][i] + d[depot][order[i]] + inner + d[order[j]][depot];
+        if (cost < best[k][j + 1]) {
+          best[k][j + 1] = cost;
+          split[k][j + 1] = i;
+        }
+      }
+    }
+  }
+
+  // Prefer the cheapest split within the fleet; otherwise use as few extra vehicles as possible
+  let routeCount = -1;
+  for (let k = 1; k <= Math.min(options.vehicles, maxRoutes); k++) {
+    if (best[k][m] < (routeCount === -1 ? Infinity : best[routeCount][m])) routeCount = k;
+  }
+  for (let k = options.vehicles + 1; routeCount === -1 && k <= maxRoutes; k++) {
+    if (best[k][m] < Infinity) routeCount = k;
+  }
+
+  const routes: number[][] = [];
+  for (let k = routeCount, j = m; k > 0 && j > 0; j = split[k][j], k--) {
+    routes.unshift(order.slice(split[k][j], j));
+  }
+
+  routes.forEach((_, r) => {
+    const shown = routes.slice(0, r + 1);
+    steps.push({
+      description: `Split: vehicle ${r + 1} serves [${routes[r].join(', ')}]`,
+      visitedNodes: shown.flat(),
+      currentPath: [],
+      routes: withDepot(shown, depot),
+      exploringEdges: [{ from: routes[r][routes[r].length - 1], to: depot }, { from: depot, to: routes[r][0] }],
+      cost: totalCost(shown, depot, d),
+      additionalInfo: `Load ${routes[r].reduce((sum, c) => sum + demandOf(points, c), 0)} of ${options.capacity}`
+    });
+  });
+
+  return finish(points, d, depot, options, routes, steps, startTime);
+}
+
+function customersOf(points: Point[], depot: number): number[] {
+  return points.map((point) => point.id).filter((id) => id !== depot);
+}
+
+function withDepot(routes: number[][], depot: number): number[][] {
+  return routes.map((route) => [depot, ...route]);
+}
+
+function totalCost(routes: number[][], depot: number, distanceMatrix: number[][]): number {
+  return routes.reduce((sum, route) => sum + calculatePathCost([depot, ...route], distanceMatrix), 0);
+}
+
+// Solves one vehicle's route as a small TSP on the depot plus its customers
+function optimiseRoute(customers: number[], depot: number, distanceMatrix: number[][]): number[] {
+  const nodes = [depot, ...customers];
+  const sub = nodes.map((from) => nodes.map((to) => distanceMatrix[from][to]));
+  const tour = twoOptTSP(sub, greedyTSP(sub, 0).path, 0).path;
+  return tour.slice(1).map((index) => nodes[index]);
+}
+
+function finish(
+  points: Point[],
+  distanceMatrix: number[][],
+  depot: number,
+  options: VehicleRoutingOptions,
+  routes: number[][],
+  steps: AlgorithmStep[],
+  startTime: number
+): TSPResult {
+  const vehicleRoutes: VehicleRoute[] = routes.map((route) => ({
+    path: [depot, ...route],
+    cost: calculatePathCost([depot, ...route], distanceMatrix),
+    load: route.reduce((sum, c) => sum + demandOf(points, c), 0)
+  }));
+  const cost = vehicleRoutes.reduce((sum, route) => sum + route.cost, 0);
+  const overFleet = routes.length - options.vehicles;
+
+  steps.push({
+    description: `${routes.length} route${routes.length === 1 ? '' : 's'} with total cost ${cost.toFixed(2)}`,
+    visitedNodes: routes.flat(),
+    currentPath: [],
+    routes: withDepot(routes, depot),
+    cost,
+    additionalInfo: overFleet > 0
+      ? `Needs ${overFleet} more vehicle${overFleet === 1 ? '' : 's'} than the fleet of ${options.vehicles} at capacity ${options.capacity}`
+      : vehicleRoutes.map((route, r) => `Vehicle ${r + 1}: ${route.cost.toFixed(2)}`).join(', ')
+  });
+
+  const executionTime = performance.now() - startTime;
+  return { path: [depot, ...routes.flat()], cost, executionTime, steps, routes: vehicleRoutes };
+}